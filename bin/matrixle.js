@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx, straight from a checkout
+// tsx reads the @/ path aliases from a tsconfig, so point it at this repo's
+// rather than one in the directory the command happens to run from
+process.env.TSX_TSCONFIG_PATH = require('path').join(__dirname, '..', 'tsconfig.json')
+require('tsx/cjs')
+require('../scripts/matrixle.ts')
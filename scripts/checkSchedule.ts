@@ -0,0 +1,82 @@
+/**
+ * Validates the curated puzzle file and previews the coming days.
+ *
+ *   npm run schedule:check -- [--days 14] [--from YYYY-MM-DD] [--file path] [--write] [--allow-published]
+ *
+ * Set MATRIXLE_PUZZLE_SALT as on the server so generated dates match what
+ * players will get. Exits non-zero when the file has problems, or when
+ * src/data/curatedDifficulties.json (the ratings the browser shows, so it
+ * never needs the curated file) doesn't match it; --write rewrites that.
+ * Entries for dates that have already started somewhere are refused unless
+ * --allow-published is given, e.g. to re-check entries that have gone out.
+ */
+import { readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { isDeepStrictEqual } from 'util'
+import type { CuratedEntry } from '@/lib/curatedPuzzles'
+import { formatDateInTimeZone } from '@/lib/dailyPuzzle'
+import { getDifficultyLabel } from '@/lib/difficulty'
+import { formatPuzzleValues, getCuratedDifficulties, previewSchedule, validateCuratedEntries } from '@/lib/scheduleCheck'
+
+const DEFAULT_FILE = path.join(__dirname, '..', 'src', 'data', 'curatedPuzzles.json')
+const DIFFICULTIES_FILE = path.join(__dirname, '..', 'src', 'data', 'curatedDifficulties.json')
+const DEFAULT_DAYS = 14
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+function main(args: string[]): number {
+  const file = readOption(args, 'file') ?? DEFAULT_FILE
+  const days = Number(readOption(args, 'days') ?? DEFAULT_DAYS)
+  const from = readOption(args, 'from') ?? formatDateInTimeZone(new Date(), 'UTC')
+  if (!Number.isInteger(days) || days < 0) {
+    console.error('--days must be a whole number')
+    return 2
+  }
+
+  let entries: unknown
+  try {
+    entries = JSON.parse(readFileSync(file, 'utf8'))
+  } catch (error) {
+    console.error(`Couldn't read ${file}: ${(error as Error).message}`)
+    return 2
+  }
+
+  const errors = validateCuratedEntries(entries, { allowPublished: args.includes('--allow-published') })
+  if (errors.length > 0) {
+    console.error(`${file} has ${errors.length} problem${errors.length !== 1 ? 's' : ''}:`)
+    errors.forEach(error => console.error(`  ${error}`))
+    return 1
+  }
+  console.log(`${file}: ${(entries as CuratedEntry[]).length} curated entries, all valid`)
+
+  const difficulties = getCuratedDifficulties(entries as CuratedEntry[])
+  if (args.includes('--write')) {
+    writeFileSync(DIFFICULTIES_FILE, `${JSON.stringify(difficulties, null, 2)}\n`)
+    console.log(`Wrote ${DIFFICULTIES_FILE}`)
+  } else {
+    let written: unknown
+    try {
+      written = JSON.parse(readFileSync(DIFFICULTIES_FILE, 'utf8'))
+    } catch {
+      written = null
+    }
+    if (!isDeepStrictEqual(written, difficulties)) {
+      console.error(`${DIFFICULTIES_FILE} doesn't match ${file}; run \`npm run schedule:check -- --write\``)
+      return 1
+    }
+  }
+
+  if (days > 0) {
+    console.log(`\nNext ${days} days from ${from}:`)
+    previewSchedule(from, days, entries as CuratedEntry[]).forEach(day => {
+      const source = day.curated ? `curated${day.note ? `: ${day.note}` : ''}` : 'generated'
+      console.log(`  ${day.date}  #${day.puzzleNumber}  ${formatPuzzleValues(day.values)}  ${getDifficultyLabel(day.difficulty).padEnd(8)}  ${source}`)
+    })
+  }
+  return 0
+}
+
+process.exitCode = main(process.argv.slice(2))
@@ -0,0 +1,264 @@
+/**
+ * Matrixle in the terminal, on the same rules code as the site.
+ *
+ *   matrixle play [--date YYYY-MM-DD | --date N] [--hard] [--server URL]
+ *   matrixle solve [--date YYYY-MM-DD | --date N]
+ *
+ * `play` plays a daily puzzle (today's by default) and `solve` lists the
+ * answers still possible after the guesses saved for it. Games are saved to
+ * ~/.matrixle/games.json, or MATRIXLE_CLI_SAVE.
+ *
+ * Puzzles from the schedule cutover on are salted with MATRIXLE_PUZZLE_SALT,
+ * which only the site's server has. With --server (or MATRIXLE_SERVER) set to
+ * the site's address, guesses are checked through its /api/guess like the
+ * browser's; without it, `play` only takes earlier puzzles, unless the salt
+ * is set here too.
+ */
+import os from 'os'
+import path from 'path'
+import { createInterface } from 'readline'
+import type { FeedbackColor, GameState, Puzzle, PuzzleInfo, PuzzleValues } from '@/types/game'
+import {
+  EPOCH, getDailyPuzzleInfo, getDateForPuzzleNumber, getPuzzleNumber, getTodayString, isPublishedPuzzleNumber,
+  SCHEDULE_CUTOVER,
+} from '@/lib/dailyPuzzle'
+import { getDailyPuzzle } from '@/lib/dailyAnswer'
+import { getDifficultyLabel } from '@/lib/difficulty'
+import { createEngine, formatGuessLimit, gameReducer, hasAnswer, type EngineState } from '@/lib/engine'
+import { requestAnswer, requestFeedback } from '@/lib/guessClient'
+import { createJsonFile } from '@/lib/jsonFile'
+import { getPuzzleSalt } from '@/lib/puzzleSchedule'
+import { fromSavedGame, toSavedGame } from '@/lib/saveFormat'
+import { formatShareText, getShareLabel } from '@/lib/share'
+import { getPossibleAnswers, getRemainingSolutions } from '@/lib/solver'
+import { createCliSaveFile, isCliSaveFile, loadCliGame, parseGuessInput, PLAIN_LEGEND, renderDigits, renderGuess } from '@/lib/terminal'
+import { validateCompleteGuess } from '@/lib/validation'
+
+const USAGE = `Usage:
+  matrixle play [--date YYYY-MM-DD | --date N] [--hard] [--server URL]
+  matrixle solve [--date YYYY-MM-DD | --date N]`
+
+// How many possible answers `solve` prints before summarising
+const SOLUTION_LIST_LIMIT = 20
+
+const ansi = Boolean(process.stdout.isTTY) && !process.env.NO_COLOR
+const savePath = process.env.MATRIXLE_CLI_SAVE ?? path.join(os.homedir(), '.matrixle', 'games.json')
+const saveFile = createJsonFile(
+  savePath,
+  createCliSaveFile,
+  isCliSaveFile
+)
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+// A published puzzle's date from YYYY-MM-DD or a puzzle number; null otherwise
+function resolveDate(value: string | undefined): string | null {
+  if (value === undefined) return getTodayString()
+  const number = /^\d{4}-\d{2}-\d{2}$/.test(value) ? getPuzzleNumber(value) : Number(value)
+  if (!isPublishedPuzzleNumber(number)) return null
+  return getDateForPuzzleNumber(number)
+}
+
+// The site to check guesses with, from --server or MATRIXLE_SERVER; null when neither is set
+function readServer(args: string[]): { ok: true; server: URL | null } | { ok: false; error: string } {
+  const value = readOption(args, 'server') ?? process.env.MATRIXLE_SERVER
+  if (value === undefined || value === '') return { ok: true, server: null }
+  try {
+    const server = new URL(value)
+    if (server.protocol === 'http:' || server.protocol === 'https:') return { ok: true, server }
+  } catch {
+    // reported below
+  }
+  return { ok: false, error: `--server must be the site's http(s) address, not ${value}` }
+}
+
+// guessClient asks for paths like /api/guess, relative to the page in a browser
+function createServerFetch(server: URL): typeof fetch {
+  return (input, init) => fetch(new URL(String(input), server), init)
+}
+
+async function getAnswer(puzzle: Puzzle | PuzzleInfo, fetchImpl: typeof fetch | null): Promise<PuzzleValues | null> {
+  if (hasAnswer(puzzle)) return puzzle
+  return fetchImpl ? requestAnswer(puzzle.date, fetchImpl) : null
+}
+
+async function loadGame(puzzle: PuzzleInfo): Promise<{ engine: EngineState; revision: number }> {
+  const { save, error } = await saveFile.update(file => {
+    const loaded = loadCliGame(file, puzzle.date)
+    return { changed: loaded.error !== null, result: loaded }
+  })
+  if (error) console.warn(`Your saved game for ${puzzle.date} couldn't be read (${error}), so it was moved to "backups" in ${savePath} and a new game started.`)
+  if (!save) return { engine: createEngine(puzzle), revision: 0 }
+  return { engine: gameReducer(createEngine(puzzle), { type: 'Restored', state: fromSavedGame(save, puzzle) }), revision: save.revision }
+}
+
+async function saveGame(state: GameState, revision: number): Promise<void> {
+  await saveFile.update(file => {
+    file.games[state.puzzle.date] = toSavedGame(state, revision)
+    return { changed: true, result: undefined }
+  })
+}
+
+function printBoard(state: GameState): void {
+  state.guesses.forEach(guess => console.log(`${renderGuess(guess, guess.feedback, ansi)}\n`))
+  if (state.guesses.length > 0) console.log(`Digits: ${renderDigits(state.digitStats, ansi)}\n`)
+}
+
+function printResult(state: GameState, answer: PuzzleValues | null = null): void {
+  const { puzzle } = state
+  if (state.status === 'won') {
+    console.log(`Solved in ${state.guesses.length} guess${state.guesses.length !== 1 ? 'es' : ''}${state.retried ? ' on retry' : ''}!`)
+  } else if (state.retried) {
+    console.log(answer
+      ? `Out of guesses. The answer was:\n${renderGuess(answer, null, ansi)}`
+      : 'Out of guesses. The answer is shown once the puzzle has ended everywhere.')
+  } else {
+    console.log('Out of guesses. Run `matrixle play` again to use your retry.')
+  }
+  console.log(`\n${formatShareText(
+    state.guesses,
+    getShareLabel(puzzle),
+    state.guesses.length,
+    state.status as 'won' | 'lost',
+    state.retried,
+    { difficulty: puzzle.difficulty, hardMode: state.hardMode, maxGuesses: state.maxGuesses }
+  )}`)
+}
+
+async function play(args: string[]): Promise<number> {
+  const date = resolveDate(readOption(args, 'date'))
+  if (!date) {
+    console.error(`--date must be a published puzzle: a date from ${EPOCH} to today, or its number`)
+    return 2
+  }
+  const server = readServer(args)
+  if (!server.ok) {
+    console.error(server.error)
+    return 2
+  }
+  if (!server.server && date >= SCHEDULE_CUTOVER && !getPuzzleSalt()) {
+    console.error(`Puzzles from ${SCHEDULE_CUTOVER} on are only known to the site's server. Pass --server with its address (or set MATRIXLE_SERVER) to play them.`)
+    return 2
+  }
+  const fetchImpl = server.server && createServerFetch(server.server)
+  const puzzle = fetchImpl ? getDailyPuzzleInfo(date) : getDailyPuzzle(date)
+  let { engine, revision } = await loadGame(puzzle)
+  if (args.includes('--hard')) {
+    const next = gameReducer(engine, { type: 'HardModeSet', hardMode: true })
+    if (next === engine && !engine.state.hardMode) console.log('Hard mode can only be turned on before the first guess.')
+    engine = next
+  }
+
+  console.log(`Matrixle #${getPuzzleNumber(date)} · ${date} · ${getDifficultyLabel(puzzle.difficulty)}${engine.state.hardMode ? ' · Hard mode' : ''}`)
+  console.log('Type the eight digits a b c d e f g h for [a b; c d] × [e; f] = [g; h], or q to quit.')
+  if (!ansi) console.log(PLAIN_LEGEND)
+  console.log('')
+  printBoard(engine.state)
+
+  // Read lines through the iterator so piped input isn't dropped between prompts
+  const prompt = createInterface({ input: process.stdin })
+  const lines = prompt[Symbol.asyncIterator]()
+  const ask = async (question: string, atEnd: string): Promise<string> => {
+    process.stdout.write(question)
+    const line = await lines.next()
+    if (line.done) process.stdout.write('\n')
+    return line.done ? atEnd : line.value
+  }
+  try {
+    while (engine.state.status === 'playing' || (engine.state.status === 'lost' && !engine.state.retried)) {
+      const { state } = engine
+      if (state.status === 'lost') {
+        printResult(state)
+        const answer = await ask('\nTry again? (y/n) ', 'n')
+        if (!/^y/i.test(answer.trim())) return 0
+        engine = gameReducer(engine, { type: 'Retried' })
+        await saveGame(engine.state, ++revision)
+        continue
+      }
+
+      const line = await ask(`Guess ${state.guesses.length + 1}/${formatGuessLimit(state.maxGuesses)}: `, 'q')
+      if (/^q(uit)?$/i.test(line.trim())) {
+        console.log('Saved. Come back with `matrixle play`.')
+        return 0
+      }
+      const parsed = parseGuessInput(line)
+      if (!parsed.ok) {
+        console.log(parsed.error)
+        continue
+      }
+      const { matrix, vector, result } = parsed.values
+      const validation = validateCompleteGuess(matrix, vector, result, state.hardMode ? state.guesses : undefined)
+      if (!validation.isValid) {
+        console.log(validation.errors?.join('\n') ?? "That guess isn't allowed")
+        continue
+      }
+
+      let feedback: FeedbackColor[] | undefined
+      if (fetchImpl) {
+        try {
+          feedback = await requestFeedback({
+            date,
+            guess: parsed.values,
+            guessNumber: state.guesses.length + 1,
+            maxGuesses: state.maxGuesses,
+          }, fetchImpl)
+        } catch (error) {
+          console.log(error instanceof Error ? error.message : String(error))
+          continue
+        }
+      }
+      engine = gameReducer(engine, { type: 'GuessSubmitted', guess: parsed.values, timestamp: new Date(), feedback })
+      await saveGame(engine.state, ++revision)
+      const guess = engine.state.guesses[engine.state.guesses.length - 1]
+      console.log(`\n${renderGuess(guess, guess.feedback, ansi)}\n`)
+      if (engine.state.status === 'playing') console.log(`Digits: ${renderDigits(engine.state.digitStats, ansi)}\n`)
+    }
+    printResult(engine.state, engine.state.status === 'lost' ? await getAnswer(puzzle, fetchImpl) : null)
+    return 0
+  } finally {
+    prompt.close()
+  }
+}
+
+async function solve(args: string[]): Promise<number> {
+  const date = resolveDate(readOption(args, 'date'))
+  if (!date) {
+    console.error(`--date must be a published puzzle: a date from ${EPOCH} to today, or its number`)
+    return 2
+  }
+  // The saved feedback is all this needs, so it works without the server
+  const { engine } = await loadGame(getDailyPuzzleInfo(date))
+  const { puzzle, guesses } = engine.state
+  const remaining = getRemainingSolutions(guesses, getPossibleAnswers(puzzle))
+
+  console.log(`Matrixle #${getPuzzleNumber(date)} · ${guesses.length} guess${guesses.length !== 1 ? 'es' : ''} saved\n`)
+  printBoard(engine.state)
+  console.log(`${remaining.length} possible answer${remaining.length !== 1 ? 's' : ''}`)
+  remaining.slice(0, SOLUTION_LIST_LIMIT).forEach(values => console.log(`\n${renderGuess(values, null, ansi)}`))
+  if (remaining.length > SOLUTION_LIST_LIMIT) console.log(`\n…and ${remaining.length - SOLUTION_LIST_LIMIT} more`)
+  return 0
+}
+
+async function main(args: string[]): Promise<number> {
+  switch (args[0]) {
+    case 'play':
+      return play(args.slice(1))
+    case 'solve':
+      return solve(args.slice(1))
+    case undefined:
+    case 'help':
+    case '--help':
+      console.log(USAGE)
+      return 0
+    default:
+      console.error(`Unknown command ${args[0]}\n\n${USAGE}`)
+      return 2
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code
+})
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { getRevealedAnswer } from '@/lib/guessApi'
+
+// GET ?date=YYYY-MM-DD → { matrix, vector, result }, once that day is over everywhere
+export async function GET(request: Request) {
+  const date = new URL(request.url).searchParams.get('date') ?? ''
+  const result = getRevealedAnswer(date)
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { joinGroup } from '@/lib/groupApi'
+import { getGroupRepository } from '@/lib/groupRepository'
+
+interface MembersRouteContext {
+  params: Promise<{ code: string }>
+}
+
+// POST { member } → { group, member }
+export async function POST(request: Request, { params }: MembersRouteContext) {
+  const { code } = await params
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body is not JSON' }, { status: 400 })
+  }
+  const result = await joinGroup(code, body, getGroupRepository())
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
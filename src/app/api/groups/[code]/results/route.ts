@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { submitGroupResult } from '@/lib/groupApi'
+import { getGroupRepository } from '@/lib/groupRepository'
+
+interface ResultsRouteContext {
+  params: Promise<{ code: string }>
+}
+
+// POST { member, shareText } → Group
+export async function POST(request: Request, { params }: ResultsRouteContext) {
+  const { code } = await params
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body is not JSON' }, { status: 400 })
+  }
+  const result = await submitGroupResult(code, body, getGroupRepository())
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
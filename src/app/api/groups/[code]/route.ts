@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { getGroup } from '@/lib/groupApi'
+import { getGroupRepository } from '@/lib/groupRepository'
+
+interface GroupRouteContext {
+  params: Promise<{ code: string }>
+}
+
+// GET → Group
+export async function GET(_request: Request, { params }: GroupRouteContext) {
+  const { code } = await params
+  const result = await getGroup(code, getGroupRepository())
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { createGroup } from '@/lib/groupApi'
+import { getGroupRepository } from '@/lib/groupRepository'
+
+// POST { name, member } → { group, member }
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body is not JSON' }, { status: 400 })
+  }
+  const result = await createGroup(body, getGroupRepository())
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { checkDailyGuess } from '@/lib/guessApi'
+
+// POST { date, guess, guessNumber, maxGuesses } → { feedback, status }
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body is not JSON' }, { status: 400 })
+  }
+  const result = checkDailyGuess(body)
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
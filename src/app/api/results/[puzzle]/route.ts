@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { getGlobalDistribution } from '@/lib/globalResults'
+import { getResultsStore } from '@/lib/resultsStore'
+
+interface ResultsRouteContext {
+  params: Promise<{ puzzle: string }>
+}
+
+// GET → { puzzle, wins, losses, players }
+export async function GET(_request: Request, { params }: ResultsRouteContext) {
+  const { puzzle } = await params
+  const result = await getGlobalDistribution(Number(puzzle), getResultsStore())
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { reportResult } from '@/lib/globalResults'
+import { getResultsStore } from '@/lib/resultsStore'
+
+// POST { clientId, puzzle, g, limit? } → { counted }
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body is not JSON' }, { status: 400 })
+  }
+  const result = await reportResult(body, getResultsStore())
+  return result.ok
+    ? NextResponse.json(result.value)
+    : NextResponse.json({ error: result.error }, { status: result.status })
+}
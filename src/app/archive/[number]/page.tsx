@@ -0,0 +1,34 @@
+import { notFound, redirect } from 'next/navigation'
+import GameBoard from '@/components/GameBoard'
+import Header from '@/components/Header'
+import { getDateForPuzzleNumber, getPuzzleNumber } from '@/lib/dailyPuzzle'
+import { isPlayablePuzzleNumber } from '@/lib/guessApi'
+
+interface ArchivePuzzlePageProps {
+  params: Promise<{ number: string }>
+}
+
+export default async function ArchivePuzzlePage({ params }: ArchivePuzzlePageProps) {
+  const { number } = await params
+
+  // Allow /archive/2026-04-01 as well as /archive/4
+  if (/^\d{4}-\d{2}-\d{2}$/.test(number)) {
+    redirect(`/archive/${getPuzzleNumber(number)}`)
+  }
+
+  // The server's date can be behind the player's local one, so a puzzle is
+  // open once its day has started anywhere, as /api/guess has it
+  const puzzleNumber = Number(number)
+  if (!isPlayablePuzzleNumber(puzzleNumber)) {
+    notFound()
+  }
+
+  const date = getDateForPuzzleNumber(puzzleNumber)
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <Header puzzleNumber={puzzleNumber} />
+      <GameBoard key={date} date={date} />
+    </main>
+  )
+}
@@ -0,0 +1,11 @@
+import ArchiveCalendar from '@/components/ArchiveCalendar'
+import Header from '@/components/Header'
+
+export default function ArchivePage() {
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <Header />
+      <ArchiveCalendar />
+    </main>
+  )
+}
@@ -0,0 +1,18 @@
+import GroupLeaderboard from '@/components/GroupLeaderboard'
+import Header from '@/components/Header'
+import { normalizeInviteCode } from '@/lib/groups'
+
+interface GroupPageProps {
+  params: Promise<{ code: string }>
+}
+
+export default async function GroupPage({ params }: GroupPageProps) {
+  const { code } = await params
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <Header title="Group leaderboard" />
+      <GroupLeaderboard inviteCode={normalizeInviteCode(code)} />
+    </main>
+  )
+}
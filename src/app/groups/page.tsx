@@ -0,0 +1,11 @@
+import GroupsManager from '@/components/GroupsManager'
+import Header from '@/components/Header'
+
+export default function GroupsPage() {
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <Header title="Friend groups" />
+      <GroupsManager />
+    </main>
+  )
+}
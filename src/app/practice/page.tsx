@@ -0,0 +1,45 @@
+import { redirect } from 'next/navigation'
+import GameBoard from '@/components/GameBoard'
+import Header from '@/components/Header'
+import { createPracticeSeed, normalizePracticeSeed } from '@/lib/practicePuzzle'
+
+interface PracticePageProps {
+  searchParams: Promise<{ seed?: string | string[] }>
+}
+
+export default async function PracticePage({ searchParams }: PracticePageProps) {
+  const { seed: rawSeed } = await searchParams
+  const input = Array.isArray(rawSeed) ? rawSeed[0] : rawSeed
+  const seed = input !== undefined ? normalizePracticeSeed(input) : null
+
+  // Keep the seed in the URL so the puzzle can be shared
+  if (seed === null) {
+    redirect(`/practice?seed=${createPracticeSeed()}`)
+  }
+  if (seed !== input) {
+    redirect(`/practice?seed=${encodeURIComponent(seed)}`)
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <Header practiceSeed={seed} />
+      <form action="/practice" method="get" className="flex items-center justify-center gap-2 mb-6 text-sm">
+        <label htmlFor="practice-seed" className="text-gray-600">Seed</label>
+        <input
+          id="practice-seed"
+          name="seed"
+          defaultValue={seed}
+          maxLength={32}
+          className="px-2 py-1 border-2 border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button type="submit" className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Play
+        </button>
+        <a href="/practice" className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50">
+          Random
+        </a>
+      </form>
+      <GameBoard key={seed} practiceSeed={seed} />
+    </main>
+  )
+}
@@ -0,0 +1,42 @@
+import { notFound } from 'next/navigation'
+import Header from '@/components/Header'
+import ReplayViewer from '@/components/ReplayViewer'
+import { getPuzzleNumber } from '@/lib/dailyPuzzle'
+import { getPracticeSeed } from '@/lib/practicePuzzle'
+import type { ReplayParams } from '@/lib/replay'
+import { decodeReplay } from '@/lib/replayDecoder'
+
+interface ReplayPageProps {
+  searchParams: Promise<Record<keyof ReplayParams, string | string[] | undefined>>
+}
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+export default async function ReplayPage({ searchParams }: ReplayPageProps) {
+  const query = await searchParams
+  const params: ReplayParams = {
+    puzzle: first(query.puzzle),
+    seed: first(query.seed),
+    g: first(query.g),
+    limit: first(query.limit),
+  }
+
+  const replay = decodeReplay(params)
+  if (!replay) {
+    notFound()
+  }
+
+  const seed = getPracticeSeed(replay.puzzle)
+  const title = seed !== null
+    ? `Replay · Practice seed ${seed}`
+    : `Replay · #${getPuzzleNumber(replay.puzzle.date)}`
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <Header title={title} />
+      <ReplayViewer guesses={replay.guesses} maxGuesses={replay.maxGuesses} />
+    </main>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { useMemo } from 'react'
+import { analyzeGame, MAX_PROBES } from '@/lib/analysis'
+import { getPossibleAnswers } from '@/lib/solver'
+import type { Guess, PuzzleInfo, PuzzleValues } from '@/types/game'
+
+interface AnalysisModalProps {
+  isOpen: boolean
+  onClose: () => void
+  puzzle: PuzzleInfo
+  guesses: Guess[]
+}
+
+function formatEquation({ matrix, vector, result }: PuzzleValues): string {
+  return `[${matrix.a}${matrix.b};${matrix.c}${matrix.d}]×[${vector.e};${vector.f}]=[${result.g};${result.h}]`
+}
+
+function scoreColor(score: number): string {
+  if (score >= 70) return 'text-green-600'
+  if (score >= 40) return 'text-yellow-600'
+  return 'text-red-500'
+}
+
+export default function AnalysisModal({ isOpen, onClose, puzzle, guesses }: AnalysisModalProps) {
+  // The simulation is heavy; only run it while the panel is open
+  const report = useMemo(() => (isOpen ? analyzeGame(guesses, getPossibleAnswers(puzzle)) : []), [isOpen, puzzle, guesses])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-2xl w-full mx-4 relative max-h-[90vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-xl"
+        >
+          ×
+        </button>
+
+        <h2 className="text-2xl font-bold text-gray-800 mb-1 text-center">Game analysis</h2>
+        <p className="text-xs text-gray-500 mb-4 text-center">
+          Skill compares each guess to the solver&apos;s pick; luck is how favorable the feedback turned out.
+        </p>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">Your guess</th>
+              <th className="py-1 pr-2">Answers left</th>
+              <th className="py-1 pr-2">Solver pick</th>
+              <th className="py-1 pr-2 text-right">Skill</th>
+              <th className="py-1 text-right">Luck</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.map((row, i) => (
+              <tr key={i} className="border-b last:border-0">
+                <td className="py-2 pr-2 text-gray-500">{i + 1}</td>
+                <td className="py-2 pr-2 font-mono text-xs">{formatEquation(guesses[i])}</td>
+                <td className="py-2 pr-2 whitespace-nowrap">
+                  {row.candidatesBefore} → <span className="font-semibold">{row.candidatesAfter}</span>
+                </td>
+                <td className="py-2 pr-2 font-mono text-xs">
+                  {formatEquation(row.solverPick)}
+                  {row.solverPickSampled && <span className="text-gray-400" title="Best of a sample of the answers left">*</span>}
+                </td>
+                <td className={`py-2 pr-2 text-right font-semibold ${scoreColor(row.skill)}`}>{row.skill}</td>
+                <td className={`py-2 text-right font-semibold ${scoreColor(row.luck)}`}>{row.luck}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report.some(row => row.solverPickSampled) && (
+          <p className="text-xs text-gray-500 mt-3">
+            * With this many answers left the solver weighs an even sample of {MAX_PROBES} of them, so its pick and the skill score are approximate.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
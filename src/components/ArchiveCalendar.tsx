@@ -0,0 +1,103 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { getArchiveDates, getPuzzleNumber } from '@/lib/dailyPuzzle'
+import { readSavedGame } from '@/lib/saveFormat'
+import type { GameStatus } from '@/types/game'
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+
+interface ArchiveMonth {
+  label: string
+  leadingBlanks: number // weekday offset of the month's first archive day
+  dates: string[]
+}
+
+function groupByMonth(dates: string[]): ArchiveMonth[] {
+  const months: ArchiveMonth[] = []
+  dates.forEach(date => {
+    const label = new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+    let month = months[months.length - 1]
+    if (!month || month.label !== label) {
+      month = { label, leadingBlanks: new Date(`${date}T00:00:00Z`).getUTCDay(), dates: [] }
+      months.push(month)
+    }
+    month.dates.push(date)
+  })
+  return months
+}
+
+function readStatus(date: string): GameStatus | undefined {
+  try {
+    return readSavedGame(date)?.status
+  } catch {
+    return undefined
+  }
+}
+
+function statusClass(status: GameStatus | undefined): string {
+  switch (status) {
+    case 'won':
+      return 'bg-green-500 text-white border-green-500'
+    case 'lost':
+      return 'bg-gray-500 text-white border-gray-500'
+    case 'playing':
+      return 'bg-yellow-400 text-gray-900 border-yellow-400'
+    default:
+      return 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+  }
+}
+
+export default function ArchiveCalendar() {
+  const [dates, setDates] = useState<string[]>([])
+  const [statuses, setStatuses] = useState<Record<string, GameStatus | undefined>>({})
+
+  // Resolve "today" on the client so the calendar never lags behind a cached build
+  useEffect(() => {
+    const archiveDates = getArchiveDates()
+    setDates(archiveDates)
+    setStatuses(Object.fromEntries(archiveDates.map(date => [date, readStatus(date)])))
+  }, [])
+
+  const months = groupByMonth(dates).reverse()
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center text-gray-500 text-xs">
+        🟩 solved &nbsp;·&nbsp; 🟨 in progress &nbsp;·&nbsp; ⬛ not solved &nbsp;·&nbsp; ⬜ not played
+      </div>
+      {months.map(month => (
+        <section key={month.label}>
+          <h2 className="text-center font-semibold text-gray-800 mb-2">{month.label}</h2>
+          <div className="grid grid-cols-7 gap-1 max-w-xs mx-auto text-center">
+            {WEEKDAYS.map((day, i) => (
+              <div key={i} className="text-xs text-gray-400">{day}</div>
+            ))}
+            {Array.from({ length: month.leadingBlanks }).map((_, i) => (
+              <div key={`blank-${i}`} />
+            ))}
+            {month.dates.map(date => {
+              const puzzleNumber = getPuzzleNumber(date)
+              return (
+                <Link
+                  key={date}
+                  href={`/archive/${puzzleNumber}`}
+                  className={`flex flex-col items-center justify-center h-10 rounded border-2 transition-colors ${statusClass(statuses[date])}`}
+                  aria-label={`Puzzle #${puzzleNumber}, ${date}`}
+                >
+                  <span className="text-sm font-bold leading-none">{Number(date.slice(8))}</span>
+                  <span className="text-[10px] leading-none opacity-75">#{puzzleNumber}</span>
+                </Link>
+              )
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatShareScore, formatShareTitle, parseShareText, type ParsedShare } from '@/lib/share'
+import { addFriendResult, compareResults, getFriendResultsKey, loadFriendResults, removeFriendResult, type FriendResult } from '@/lib/friendResults'
+import { formatGuessLimit } from '@/lib/engine'
+import { formatDuration } from '@/lib/timer'
+import type { FeedbackColor, Guess } from '@/types/game'
+
+interface CompareModalProps {
+  isOpen: boolean
+  onClose: () => void
+  shareLabel: number | string
+  guesses: Guess[]
+  status: 'won' | 'lost'
+  retried: boolean
+  maxGuesses: number | null
+  timeMs?: number
+}
+
+const TILE_CLASSES: Record<FeedbackColor, string> = {
+  'correct': 'bg-green-500',
+  'wrong-position': 'bg-yellow-500',
+  'not-in-puzzle': 'bg-gray-500',
+}
+
+// Top row a b e g, bottom row c d f h, as in the share text
+const TILE_ROWS = [[0, 1, 4, 6], [2, 3, 5, 7]]
+
+function FeedbackGrid({ rows }: { rows: FeedbackColor[][] }) {
+  return (
+    <div className="flex flex-col gap-2">
+      {rows.map((row, i) => (
+        <div key={i} className="flex flex-col gap-0.5">
+          {TILE_ROWS.map((indices, r) => (
+            <div key={r} className="flex gap-0.5">
+              {indices.map((index, column) => (
+                <span key={index} className={`w-4 h-4 rounded-sm ${TILE_CLASSES[row[index]]} ${column >= 2 ? 'ml-2' : ''}`} />
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function CompareModal({ isOpen, onClose, shareLabel, guesses, status, retried, maxGuesses, timeMs }: CompareModalProps) {
+  const [text, setText] = useState('')
+  const [name, setName] = useState('')
+  const [parsed, setParsed] = useState<ParsedShare | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [board, setBoard] = useState<FriendResult[]>([])
+
+  useEffect(() => {
+    if (isOpen) setBoard(loadFriendResults()[getFriendResultsKey(shareLabel)] ?? [])
+  }, [isOpen, shareLabel])
+
+  if (!isOpen) return null
+
+  const handleCompare = () => {
+    const result = parseShareText(text)
+    if (!result.ok) {
+      setParsed(null)
+      setError(result.error)
+    } else if (result.share.label !== shareLabel) {
+      setParsed(null)
+      setError(`That result is for ${formatShareTitle(result.share.label)}, not ${formatShareTitle(shareLabel)}`)
+    } else if (result.share.maxGuesses !== maxGuesses) {
+      setParsed(null)
+      setError(`That game allowed ${formatGuessLimit(result.share.maxGuesses)} guesses and yours allowed ${formatGuessLimit(maxGuesses)}, so they can't be ranked together`)
+    } else {
+      setParsed(result.share)
+      setError(null)
+    }
+  }
+
+  const handleAdd = () => {
+    if (!parsed || !name.trim()) return
+    setBoard(addFriendResult(name, parsed))
+    setText('')
+    setName('')
+    setParsed(null)
+  }
+
+  const own = { name: 'You', status, guessCount: guesses.length, retried, maxGuesses, timeMs }
+  const ranked = [...board.map(result => ({ ...result, isOwn: false })), { ...own, isOwn: true }].sort(compareResults)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-8 max-w-lg w-full mx-4 relative max-h-[90vh] overflow-y-auto text-gray-800">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-xl"
+        >
+          ×
+        </button>
+
+        <h2 className="text-2xl font-bold mb-4 text-center">Compare with friends</h2>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={`Paste a friend's Matrixle ${formatShareTitle(shareLabel)} result`}
+          rows={5}
+          className="w-full p-2 border-2 border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex justify-center mt-2">
+          <button
+            onClick={handleCompare}
+            disabled={!text.trim()}
+            className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            Compare
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-2 text-center">{error}</p>}
+
+        {parsed && (
+          <div className="mt-4">
+            {parsed.warnings.length > 0 && (
+              <ul className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2 mb-3 list-disc list-inside">
+                {parsed.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+            <div className="flex justify-center gap-8">
+              <div className="flex flex-col items-center gap-2">
+                <span className="text-sm font-semibold">You · {formatShareScore(guesses.length, status, retried, maxGuesses)}</span>
+                <FeedbackGrid rows={guesses.map(guess => guess.feedback)} />
+              </div>
+              <div className="flex flex-col items-center gap-2">
+                <span className="text-sm font-semibold">
+                  Friend · {formatShareScore(parsed.guessCount, parsed.status, parsed.retried, parsed.maxGuesses)}
+                </span>
+                <FeedbackGrid rows={parsed.rows} />
+              </div>
+            </div>
+            <div className="flex justify-center gap-2 mt-4">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Friend's name"
+                maxLength={30}
+                className="px-2 py-1 border-2 border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!name.trim()}
+                className="px-4 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Add to leaderboard
+              </button>
+            </div>
+          </div>
+        )}
+
+        <h3 className="text-sm font-semibold text-gray-700 mt-6 mb-2 text-center">
+          {formatShareTitle(shareLabel)} leaderboard
+        </h3>
+        <ol className="text-sm space-y-1">
+          {ranked.map((result, i) => (
+            <li
+              key={result.isOwn ? '' : result.name}
+              className={`flex items-center gap-2 px-2 py-1 rounded ${result.isOwn ? 'bg-blue-50 font-semibold' : ''}`}
+            >
+              <span className="w-6 text-gray-500">{i + 1}.</span>
+              <span className="flex-1 truncate">{result.name}</span>
+              <span className="font-mono">{formatShareScore(result.guessCount, result.status, result.retried, result.maxGuesses)}</span>
+              <span className="w-14 text-right font-mono text-gray-500">
+                {result.timeMs !== undefined ? formatDuration(result.timeMs) : ''}
+              </span>
+              {result.isOwn ? (
+                <span className="w-4" />
+              ) : (
+                <button
+                  onClick={() => setBoard(removeFriendResult(shareLabel, result.name))}
+                  className="w-4 text-gray-400 hover:text-gray-600"
+                  aria-label={`Remove ${result.name}`}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { DIFFICULTY_LEVELS, getDifficultyLabel } from '@/lib/difficulty'
+
+interface DifficultyBadgeProps {
+  difficulty: number
+}
+
+export default function DifficultyBadge({ difficulty }: DifficultyBadgeProps) {
+  const label = getDifficultyLabel(difficulty)
+
+  return (
+    <div
+      className="flex items-center justify-center gap-2 text-sm text-gray-600"
+      aria-label={`Difficulty ${difficulty} of ${DIFFICULTY_LEVELS}: ${label}`}
+    >
+      <span>Difficulty:</span>
+      <span className="font-semibold text-gray-800">{label}</span>
+      <span className="flex gap-0.5" aria-hidden="true">
+        {Array.from({ length: DIFFICULTY_LEVELS }, (_, i) => (
+          <span
+            key={i}
+            className={`w-2 h-2 rounded-full ${i < difficulty ? 'bg-gray-700' : 'bg-gray-300'}`}
+          />
+        ))}
+      </span>
+    </div>
+  )
+}
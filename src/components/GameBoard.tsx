@@ -1,33 +1,132 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
 import GuessRow from './GuessRow'
 import DigitTracker from './DigitTracker'
 import WinModal from './WinModal'
+import DifficultyBadge from './DifficultyBadge'
+import AnalysisModal from './AnalysisModal'
+import PossibleDigitsGrid from './PossibleDigitsGrid'
+import StatsModal from './StatsModal'
+import GameClock from './GameClock'
+import ShareImageButton from './ShareImageButton'
+import ShareTextDialog from './ShareTextDialog'
+import CompareModal from './CompareModal'
+import GroupSubmitButton from './GroupSubmitButton'
 import { useGameState } from '@/hooks/useGameState'
-import { formatShareText } from '@/lib/share'
+import { useToday } from '@/hooks/useToday'
+import { useSettings } from '@/hooks/useSettings'
+import { useShare } from '@/hooks/useShare'
+import { useGlobalResults } from '@/hooks/useGlobalResults'
+import { getPossibleAnswers, getRemainingSolutions } from '@/lib/solver'
+import { deduceCellCandidates } from '@/lib/deduction'
 import { getPuzzleNumber } from '@/lib/dailyPuzzle'
-import type { Guess } from '@/types/game'
+import { formatShareText, getShareLabel, type ShareOptions } from '@/lib/share'
+import { getReplayPath } from '@/lib/replay'
+import { formatDuration } from '@/lib/timer'
+import { describeShareOutcome } from '@/lib/shareService'
+import { DEFAULT_GUESS_LIMIT, GUESS_LIMIT_OPTIONS, formatGuessLimit, hasAnswer } from '@/lib/engine'
+import { requestAnswer } from '@/lib/guessClient'
+import { recordPersonalBest, type PersonalBest } from '@/lib/personalBests'
+import type { Guess, PuzzleValues } from '@/types/game'
 
-export default function GameBoard() {
-  const { gameState, submitGuess, retryGame } = useGameState()
+interface GameBoardProps {
+  date?: string         // archive date; omit for today's puzzle
+  practiceSeed?: string // play a practice puzzle instead of a daily one
+}
+
+export default function GameBoard({ date, practiceSeed }: GameBoardProps) {
+  // Today's puzzle stays pinned for the session so its save key can't drift
+  // when the date rolls over mid-game; the player opts in to the new one
+  const [playDate, setPlayDate] = useState(date)
+  const {
+    gameState, hydrated, loadError, dismissLoadError, checking, guessError, dismissGuessError,
+    submitGuess, retryGame, setHardMode, setGuessLimit, startTimer,
+  } = useGameState({ date: playDate, practiceSeed })
+  const today = useToday()
+  const { showRemainingCount, showCellCandidates, timedMode } = useSettings()
   const [showWinModal, setShowWinModal] = useState(false)
   const [modalClosedManually, setModalClosedManually] = useState(false)
   const [gameKey, setGameKey] = useState(0)
-  const [copied, setCopied] = useState(false)
-
-  const handleCopy = () => {
-    const text = formatShareText(
-      gameState.guesses,
-      getPuzzleNumber(),
-      gameState.guesses.length,
-      gameState.status as 'won' | 'lost',
-      gameState.retried
-    )
-    navigator.clipboard.writeText(text).then(() => {
-      setCopied(true)
-      setTimeout(() => setCopied(false), 2000)
+  const { share, outcome: shareOutcome, manualText, closeManual } = useShare()
+  const [showAnalysis, setShowAnalysis] = useState(false)
+  const [showStats, setShowStats] = useState(false)
+  const [showCompare, setShowCompare] = useState(false)
+  const [personalBest, setPersonalBest] = useState<{ best: PersonalBest; isBest: boolean } | null>(null)
+  const [answer, setAnswer] = useState<PuzzleValues | null>(null)
+  const beatPercentage = useGlobalResults(gameState)
+  const shareLabel = getShareLabel(gameState.puzzle)
+  const isPractice = gameState.puzzle.mode === 'practice'
+  const footerNote = isPractice
+    ? 'Practice results never count toward your stats.'
+    : date
+      ? 'Pick another puzzle from the archive!'
+      : 'Come back tomorrow for a new puzzle!'
+
+  // A game stays timed once its clock has started, even if the setting is turned off
+  const timed = timedMode || gameState.timer !== null
+  const finalTimeMs = gameState.status !== 'playing' && gameState.timer ? gameState.timer.elapsedMs : undefined
+
+  useEffect(() => {
+    if (gameState.status !== 'won' || !gameState.timer) {
+      setPersonalBest(null)
+      return
+    }
+    try {
+      setPersonalBest(recordPersonalBest(gameState.puzzle.id, gameState.timer.elapsedMs, gameState.guesses.length))
+    } catch {
+      // storage unavailable
+    }
+  }, [gameState.status, gameState.timer, gameState.puzzle.id, gameState.guesses.length])
+
+  // Daily answers stay on the server until the puzzle is over everywhere
+  useEffect(() => {
+    setAnswer(null)
+    if (gameState.status !== 'lost') return
+    if (hasAnswer(gameState.puzzle)) {
+      setAnswer(gameState.puzzle)
+      return
+    }
+    let cancelled = false
+    requestAnswer(gameState.puzzle.date).then(values => {
+      if (!cancelled) setAnswer(values)
     })
+    return () => {
+      cancelled = true
+    }
+  }, [gameState.status, gameState.puzzle])
+
+  const remainingCount = useMemo(
+    () => showRemainingCount && gameState.guesses.length > 0
+      ? getRemainingSolutions(gameState.guesses, getPossibleAnswers(gameState.puzzle)).length
+      : null,
+    [showRemainingCount, gameState.puzzle, gameState.guesses]
+  )
+
+  const cellCandidates = useMemo(
+    () => showCellCandidates ? deduceCellCandidates(gameState.guesses, getPossibleAnswers(gameState.puzzle)) : null,
+    [showCellCandidates, gameState.puzzle, gameState.guesses]
+  )
+
+  const shareOptions: ShareOptions = {
+    difficulty: gameState.puzzle.difficulty,
+    hardMode: gameState.hardMode,
+    timeMs: finalTimeMs,
+    maxGuesses: gameState.maxGuesses,
+  }
+
+  const getShareText = () => formatShareText(
+    gameState.guesses,
+    shareLabel,
+    gameState.guesses.length,
+    gameState.status as 'won' | 'lost',
+    gameState.retried,
+    shareOptions
+  )
+
+  const handleShare = () => {
+    share(getShareText())
   }
 
   if (gameState.status === 'won' && !showWinModal && !modalClosedManually) {
@@ -41,12 +140,27 @@ export default function GameBoard() {
     setGameKey(prev => prev + 1)
   }
 
+  const handlePlayToday = () => {
+    if (!today) return
+    setPlayDate(today)
+    setShowWinModal(false)
+    setModalClosedManually(false)
+    setGameKey(prev => prev + 1)
+  }
+
+  const newDayAvailable = hydrated && !date && !practiceSeed && today !== null && today !== gameState.puzzle.date
+
   const handleCloseModal = () => {
     setShowWinModal(false)
     setModalClosedManually(true)
   }
 
-  const guessRows = Array.from({ length: 6 }, (_, index) => ({
+  // Unlimited games grow one row at a time past the usual board
+  const rowCount = gameState.maxGuesses ?? Math.max(
+    DEFAULT_GUESS_LIMIT,
+    gameState.guesses.length + (gameState.status === 'playing' ? 1 : 0)
+  )
+  const guessRows = Array.from({ length: rowCount }, (_, index) => ({
     id: index,
     isActive: index === gameState.currentGuess && gameState.status === 'playing',
     isSubmitted: index < gameState.guesses.length,
@@ -56,6 +170,81 @@ export default function GameBoard() {
 
   return (
     <div className="w-full max-w-2xl mx-auto pb-48">
+      {newDayAvailable && (
+        <div className="flex items-center justify-center gap-3 mb-4 p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm" role="status">
+          <span>A new day has started — puzzle #{getPuzzleNumber(today)} is ready.</span>
+          <button
+            onClick={handlePlayToday}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Play it
+          </button>
+        </div>
+      )}
+      {loadError && (
+        <div className="flex items-center justify-center gap-3 mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm" role="alert">
+          <span>
+            Your saved game for this puzzle couldn&apos;t be read ({loadError}), so a new game was started.
+            The old save was kept as a backup.
+          </span>
+          <button
+            onClick={dismissLoadError}
+            className="text-gray-500 hover:text-gray-700 text-xl leading-none"
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
+      <div className="mb-4">
+        {/* Today's puzzle on the server may not be the player's, like the clock */}
+        {hydrated && <DifficultyBadge difficulty={gameState.puzzle.difficulty} />}
+        <label
+          className={`flex items-center justify-center gap-2 text-sm mt-1 ${gameState.guesses.length > 0 ? 'text-gray-400' : 'text-gray-600'}`}
+          title={gameState.guesses.length > 0 ? 'Hard mode can only be changed before the first guess' : undefined}
+        >
+          <input
+            type="checkbox"
+            checked={gameState.hardMode}
+            disabled={gameState.guesses.length > 0 || gameState.status !== 'playing'}
+            onChange={(e) => setHardMode(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Hard mode: every guess must use the hints revealed so far
+        </label>
+        {/* Daily results go into stats and leaderboards, so only practice games change the limit */}
+        {isPractice && (
+          <label
+            className={`flex items-center justify-center gap-2 text-sm mt-1 ${gameState.guesses.length > 0 ? 'text-gray-400' : 'text-gray-600'}`}
+            title={gameState.guesses.length > 0 ? 'The guess limit can only be changed before the first guess' : undefined}
+          >
+            Guesses allowed:
+            <select
+              value={formatGuessLimit(gameState.maxGuesses)}
+              disabled={gameState.guesses.length > 0 || gameState.status !== 'playing'}
+              onChange={(e) => setGuessLimit(GUESS_LIMIT_OPTIONS.find(option => formatGuessLimit(option) === e.target.value) ?? DEFAULT_GUESS_LIMIT)}
+              className="px-1 border border-gray-300 rounded-md"
+            >
+              {GUESS_LIMIT_OPTIONS.map(option => (
+                <option key={formatGuessLimit(option)} value={formatGuessLimit(option)}>
+                  {option === null ? 'Unlimited' : option}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {remainingCount !== null && gameState.status === 'playing' && (
+          <p className="text-center text-sm text-gray-600 mt-1" role="status">
+            {remainingCount} possible answer{remainingCount !== 1 ? 's' : ''} remain{remainingCount === 1 ? 's' : ''}
+          </p>
+        )}
+        {timed && hydrated && (
+          <div className="mt-1">
+            <GameClock timer={gameState.timer} />
+          </div>
+        )}
+      </div>
+
       <div className="space-y-2 mb-6">
         {guessRows.map((row) => (
           <GuessRow
@@ -65,11 +254,35 @@ export default function GameBoard() {
             isSubmitted={row.isSubmitted}
             feedback={row.feedback}
             guess={row.guess}
+            hardModeGuesses={gameState.hardMode ? gameState.guesses : undefined}
+            onInput={timed ? startTimer : undefined}
             onSubmit={submitGuess}
           />
         ))}
       </div>
 
+      {checking && (
+        <p className="text-center text-sm text-gray-500 -mt-4 mb-4" role="status">Checking your guess…</p>
+      )}
+      {guessError && (
+        <div className="flex items-center justify-center gap-3 -mt-2 mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm" role="alert">
+          <span>{guessError}. Press Enter to try again.</span>
+          <button
+            onClick={dismissGuessError}
+            className="text-gray-500 hover:text-gray-700 text-xl leading-none"
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {cellCandidates && gameState.status === 'playing' && (
+        <div className="mb-6">
+          <PossibleDigitsGrid candidates={cellCandidates} />
+        </div>
+      )}
+
       <DigitTracker digitStats={gameState.digitStats} />
 
       {gameState.status !== 'playing' && (
@@ -83,8 +296,14 @@ export default function GameBoard() {
             {gameState.status === 'won'
               ? `You solved it in ${gameState.guesses.length} guess${gameState.guesses.length !== 1 ? 'es' : ''}!`
               : 'Better luck next time!'}
+            {finalTimeMs !== undefined && ` Time: ${formatDuration(finalTimeMs)}.`}
           </div>
-          {gameState.status === 'lost' && (
+          {gameState.status === 'lost' && !answer && !isPractice && (
+            <div className="text-gray-600 text-sm mb-4">
+              The answer is revealed once this puzzle has ended in every time zone.
+            </div>
+          )}
+          {gameState.status === 'lost' && answer && (
             <div className="mb-4">
               <div className="text-gray-600 text-sm mb-2">The answer was:</div>
               <div className="flex items-center justify-center gap-2 text-xs font-mono">
@@ -92,12 +311,12 @@ export default function GameBoard() {
                   <span className="text-gray-400 mr-1">[</span>
                   <div className="flex flex-col gap-0.5">
                     <div className="flex gap-1">
-                      <span className="w-3 text-center text-blue-600 font-semibold">{gameState.puzzle.matrix.a}</span>
-                      <span className="w-3 text-center text-blue-600 font-semibold">{gameState.puzzle.matrix.b}</span>
+                      <span className="w-3 text-center text-blue-600 font-semibold">{answer.matrix.a}</span>
+                      <span className="w-3 text-center text-blue-600 font-semibold">{answer.matrix.b}</span>
                     </div>
                     <div className="flex gap-1">
-                      <span className="w-3 text-center text-blue-600 font-semibold">{gameState.puzzle.matrix.c}</span>
-                      <span className="w-3 text-center text-blue-600 font-semibold">{gameState.puzzle.matrix.d}</span>
+                      <span className="w-3 text-center text-blue-600 font-semibold">{answer.matrix.c}</span>
+                      <span className="w-3 text-center text-blue-600 font-semibold">{answer.matrix.d}</span>
                     </div>
                   </div>
                   <span className="text-gray-400 ml-1">]</span>
@@ -106,8 +325,8 @@ export default function GameBoard() {
                 <div className="flex items-center">
                   <span className="text-gray-400 mr-1">[</span>
                   <div className="flex flex-col gap-0.5">
-                    <span className="w-3 text-center text-blue-600 font-semibold">{gameState.puzzle.vector.e}</span>
-                    <span className="w-3 text-center text-blue-600 font-semibold">{gameState.puzzle.vector.f}</span>
+                    <span className="w-3 text-center text-blue-600 font-semibold">{answer.vector.e}</span>
+                    <span className="w-3 text-center text-blue-600 font-semibold">{answer.vector.f}</span>
                   </div>
                   <span className="text-gray-400 ml-1">]</span>
                 </div>
@@ -115,8 +334,8 @@ export default function GameBoard() {
                 <div className="flex items-center">
                   <span className="text-gray-400 mr-1">[</span>
                   <div className="flex flex-col gap-0.5">
-                    <span className="w-3 text-center text-green-600 font-semibold">{gameState.puzzle.result.g}</span>
-                    <span className="w-3 text-center text-green-600 font-semibold">{gameState.puzzle.result.h}</span>
+                    <span className="w-3 text-center text-green-600 font-semibold">{answer.result.g}</span>
+                    <span className="w-3 text-center text-green-600 font-semibold">{answer.result.h}</span>
                   </div>
                   <span className="text-gray-400 ml-1">]</span>
                 </div>
@@ -133,14 +352,63 @@ export default function GameBoard() {
               </button>
             )}
             <button
-              onClick={handleCopy}
+              onClick={handleShare}
+              className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 transition-colors"
+            >
+              {describeShareOutcome(shareOutcome) ?? 'Share result'}
+            </button>
+            <ShareImageButton
+              guesses={gameState.guesses}
+              shareLabel={shareLabel}
+              status={gameState.status as 'won' | 'lost'}
+              retried={gameState.retried}
+              options={shareOptions}
               className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 transition-colors"
+            />
+            <button
+              onClick={() => setShowAnalysis(true)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Analyze game
+            </button>
+            <Link
+              href={getReplayPath(gameState.puzzle, gameState.guesses, gameState.maxGuesses)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
             >
-              {copied ? 'Copied!' : 'Copy result'}
+              Watch replay
+            </Link>
+            <button
+              onClick={() => setShowCompare(true)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Compare
             </button>
+            {!isPractice && (
+              <GroupSubmitButton
+                shareText={getShareText()}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+              />
+            )}
+            {!isPractice && (
+              <button
+                onClick={() => setShowStats(true)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Statistics
+              </button>
+            )}
           </div>
           {(gameState.status === 'won' || gameState.retried) && (
-            <p className="text-sm text-gray-500 mt-3">Come back tomorrow for a new puzzle!</p>
+            <p className="text-sm text-gray-500 mt-3">{footerNote}</p>
+          )}
+          {isPractice ? (
+            <p className="text-sm mt-2">
+              <Link href="/practice" className="text-blue-600 underline hover:text-blue-700">New practice puzzle</Link>
+            </p>
+          ) : date && (
+            <p className="text-sm mt-2">
+              <Link href="/archive" className="text-blue-600 underline hover:text-blue-700">Back to the archive</Link>
+            </p>
           )}
         </div>
       )}
@@ -151,7 +419,49 @@ export default function GameBoard() {
         guessCount={gameState.guesses.length}
         retried={gameState.retried}
         guesses={gameState.guesses}
+        shareLabel={shareLabel}
+        difficulty={gameState.puzzle.difficulty}
+        hardMode={gameState.hardMode}
+        timeMs={finalTimeMs}
+        maxGuesses={gameState.maxGuesses}
+        personalBest={personalBest}
+        beatPercentage={beatPercentage}
+        footerNote={footerNote}
+        onShowAnalysis={() => {
+          handleCloseModal()
+          setShowAnalysis(true)
+        }}
+        onShowStats={isPractice ? undefined : () => {
+          handleCloseModal()
+          setShowStats(true)
+        }}
       />
+
+      <StatsModal
+        isOpen={showStats}
+        onClose={() => setShowStats(false)}
+        highlightGuessCount={gameState.status === 'won' && !gameState.retried ? gameState.guesses.length : undefined}
+      />
+
+      <AnalysisModal
+        isOpen={showAnalysis}
+        onClose={() => setShowAnalysis(false)}
+        puzzle={gameState.puzzle}
+        guesses={gameState.guesses}
+      />
+      {gameState.status !== 'playing' && (
+        <CompareModal
+          isOpen={showCompare}
+          onClose={() => setShowCompare(false)}
+          shareLabel={shareLabel}
+          guesses={gameState.guesses}
+          status={gameState.status}
+          retried={gameState.retried}
+          maxGuesses={gameState.maxGuesses}
+          timeMs={finalTimeMs}
+        />
+      )}
+      <ShareTextDialog text={manualText} onClose={closeManual} />
     </div>
   )
 }
@@ -0,0 +1,26 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatDuration, getElapsedMs } from '@/lib/timer'
+import type { GameTimer } from '@/types/game'
+
+interface GameClockProps {
+  timer: GameTimer | null // null until the first keystroke
+}
+
+export default function GameClock({ timer }: GameClockProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const running = timer?.runningSince != null
+
+  useEffect(() => {
+    if (!running) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [running])
+
+  return (
+    <p className={`text-center font-mono text-lg ${running ? 'text-gray-800' : 'text-gray-400'}`} aria-label="Solve time">
+      ⏱ {formatDuration(timer ? getElapsedMs(timer, now) : 0)}
+    </p>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useToday } from '@/hooks/useToday'
+import { fetchGroup } from '@/lib/groupsClient'
+import { getDailyWinners, getGroupStandings, sortStandings, type Group, type StandingOrder } from '@/lib/groups'
+
+interface GroupLeaderboardProps {
+  inviteCode: string
+}
+
+const ORDERS: { order: StandingOrder; label: string }[] = [
+  { order: 'streak', label: 'Streak' },
+  { order: 'average', label: 'Average' },
+  { order: 'dailyWins', label: 'Daily wins' },
+]
+
+// How many past puzzles to list under the table
+const WINNER_HISTORY = 7
+
+export default function GroupLeaderboard({ inviteCode }: GroupLeaderboardProps) {
+  const today = useToday()
+  const [group, setGroup] = useState<Group | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [order, setOrder] = useState<StandingOrder>('streak')
+
+  useEffect(() => {
+    let cancelled = false
+    fetchGroup(inviteCode).then(
+      value => !cancelled && setGroup(value),
+      e => !cancelled && setError((e as Error).message)
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [inviteCode])
+
+  const standings = useMemo(
+    () => group && today ? sortStandings(getGroupStandings(group, today), order) : [],
+    [group, today, order]
+  )
+
+  if (error) {
+    return (
+      <p className="text-center text-sm text-red-600">
+        {error}. <Link href="/groups" className="text-blue-600 underline">Back to groups</Link>
+      </p>
+    )
+  }
+  if (!group) return <p className="text-center text-sm text-gray-500">Loading…</p>
+
+  const winners = getDailyWinners(group).slice(0, WINNER_HISTORY)
+
+  return (
+    <div className="space-y-6 text-gray-800">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold">{group.name}</h2>
+        <p className="text-sm text-gray-500">
+          Invite code <span className="font-mono font-semibold">{group.inviteCode}</span>
+        </p>
+      </div>
+
+      <div className="flex justify-center gap-2">
+        {ORDERS.map(option => (
+          <button
+            key={option.order}
+            onClick={() => setOrder(option.order)}
+            className={`px-3 py-1 rounded-md text-sm border ${order === option.order
+              ? 'bg-gray-800 text-white border-gray-800'
+              : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-1 pr-2">#</th>
+            <th className="py-1 pr-2">Member</th>
+            <th className="py-1 pr-2 text-right">Played</th>
+            <th className="py-1 pr-2 text-right">Streak</th>
+            <th className="py-1 pr-2 text-right">Average</th>
+            <th className="py-1 text-right">Daily wins</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((standing, i) => (
+            <tr key={standing.member} className="border-b border-gray-100">
+              <td className="py-1 pr-2 text-gray-500">{i + 1}</td>
+              <td className="py-1 pr-2 font-semibold">{standing.member}</td>
+              <td className="py-1 pr-2 text-right">{standing.played}</td>
+              <td className="py-1 pr-2 text-right">
+                {standing.currentStreak}
+                <span className="text-gray-400"> / {standing.maxStreak}</span>
+              </td>
+              <td className="py-1 pr-2 text-right">{standing.averageGuesses?.toFixed(2) ?? '–'}</td>
+              <td className="py-1 text-right">{standing.dailyWins}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 text-center">
+        Streak shows current / best. Average counts wins without a retry.
+      </p>
+
+      {winners.length > 0 && (
+        <section>
+          <h3 className="font-semibold mb-2">Daily winners</h3>
+          <ul className="text-sm space-y-1">
+            {winners.map(({ puzzle, winners: names }) => (
+              <li key={puzzle} className="flex justify-between">
+                <span className="text-gray-500">#{puzzle}</span>
+                <span>{names.length > 0 ? names.join(', ') : 'Nobody solved it'}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { loadJoinedGroups, submitGroupResult, type JoinedGroup } from '@/lib/groupsClient'
+
+interface GroupSubmitButtonProps {
+  shareText: string
+  className: string
+}
+
+// Sends a finished daily game to every group this browser has joined
+export default function GroupSubmitButton({ shareText, className }: GroupSubmitButtonProps) {
+  const [groups, setGroups] = useState<JoinedGroup[]>([])
+  const [sending, setSending] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    try {
+      setGroups(loadJoinedGroups())
+    } catch {
+      // storage unavailable
+    }
+  }, [])
+
+  if (groups.length === 0) return null
+
+  const handleSubmit = async () => {
+    setSending(true)
+    const failures: string[] = []
+    for (const group of groups) {
+      try {
+        await submitGroupResult(group.inviteCode, group.member, shareText)
+      } catch (error) {
+        failures.push(`${group.name}: ${(error as Error).message}`)
+      }
+    }
+    setSending(false)
+    const sent = groups.length - failures.length
+    setMessage(failures.length === 0
+      ? `Sent to ${sent} group${sent !== 1 ? 's' : ''}`
+      : failures.join('; '))
+  }
+
+  return (
+    <span className="inline-flex flex-col items-center gap-1">
+      <button onClick={handleSubmit} disabled={sending} className={className}>
+        {sending ? 'Sending…' : 'Submit to groups'}
+      </button>
+      {message && <span className="text-xs text-gray-500 max-w-xs">{message}</span>}
+    </span>
+  )
+}
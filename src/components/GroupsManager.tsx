@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { createGroup, forgetJoinedGroup, joinGroup, loadJoinedGroups, saveJoinedGroup, type JoinedGroup } from '@/lib/groupsClient'
+import { MAX_NAME_LENGTH } from '@/lib/groups'
+
+const INPUT_CLASS = 'w-full p-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+const BUTTON_CLASS = 'px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50'
+
+export default function GroupsManager() {
+  const [groups, setGroups] = useState<JoinedGroup[]>([])
+  const [member, setMember] = useState('')
+  const [groupName, setGroupName] = useState('')
+  const [inviteCode, setInviteCode] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    try {
+      const joined = loadJoinedGroups()
+      setGroups(joined)
+      if (joined.length > 0) setMember(joined[joined.length - 1].member)
+    } catch {
+      // storage unavailable
+    }
+  }, [])
+
+  const run = async (request: () => ReturnType<typeof createGroup>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      setGroups(saveJoinedGroup(await request()))
+      setGroupName('')
+      setInviteCode('')
+    } catch (e) {
+      setError((e as Error).message)
+    }
+    setBusy(false)
+  }
+
+  const name = member.trim()
+
+  return (
+    <div className="space-y-6 text-gray-800">
+      <p className="text-sm text-gray-600 text-center">
+        Play the daily puzzle with friends and keep a private leaderboard. Share a group&apos;s
+        invite code so others can join, then submit your result after each game.
+      </p>
+
+      <label className="block">
+        <span className="text-sm font-semibold">Your name in groups</span>
+        <input
+          value={member}
+          onChange={(e) => setMember(e.target.value)}
+          maxLength={MAX_NAME_LENGTH}
+          className={INPUT_CLASS}
+        />
+      </label>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <section className="space-y-2">
+          <h2 className="font-semibold">Create a group</h2>
+          <input
+            value={groupName}
+            onChange={(e) => setGroupName(e.target.value)}
+            placeholder="Group name"
+            className={INPUT_CLASS}
+          />
+          <button
+            onClick={() => run(() => createGroup(groupName, name))}
+            disabled={busy || !name || !groupName.trim()}
+            className={BUTTON_CLASS}
+          >
+            Create
+          </button>
+        </section>
+        <section className="space-y-2">
+          <h2 className="font-semibold">Join with a code</h2>
+          <input
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            placeholder="Invite code"
+            className={`${INPUT_CLASS} font-mono uppercase`}
+          />
+          <button
+            onClick={() => run(() => joinGroup(inviteCode, name))}
+            disabled={busy || !name || !inviteCode.trim()}
+            className={BUTTON_CLASS}
+          >
+            Join
+          </button>
+        </section>
+      </div>
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      <section>
+        <h2 className="font-semibold mb-2">Your groups</h2>
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500">You haven&apos;t joined any groups yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {groups.map(group => (
+              <li key={group.inviteCode} className="flex items-center justify-between gap-2 p-2 text-sm">
+                <Link href={`/groups/${group.inviteCode}`} className="text-blue-600 hover:underline">
+                  {group.name}
+                </Link>
+                <span className="text-gray-500">as {group.member}</span>
+                <span className="font-mono text-gray-500">{group.inviteCode}</span>
+                <button
+                  onClick={() => setGroups(forgetJoinedGroup(group.inviteCode))}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label={`Leave ${group.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
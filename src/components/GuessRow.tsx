@@ -11,6 +11,8 @@ interface GuessRowProps {
   isSubmitted: boolean
   feedback?: FeedbackColor[]
   guess?: Guess
+  hardModeGuesses?: Guess[] // earlier guesses whose hints this one must respect
+  onInput?: () => void      // any digit typed; timed mode starts its clock on the first
   onSubmit?: (guess: {
     matrix: Matrix2x2
     vector: Vector2x1
@@ -43,6 +45,8 @@ export default function GuessRow({
   isSubmitted, 
   feedback,
   guess,
+  hardModeGuesses,
+  onInput,
   onSubmit 
 }: GuessRowProps) {
   const [values, setValues] = useState<Record<CellPosition, string>>(() => guessToValues(guess))
@@ -62,6 +66,7 @@ export default function GuessRow({
   const handleCellChange = useCallback((position: CellPosition, value: string) => {
     setValues(prev => ({ ...prev, [position]: value }))
     setErrorMessage('')
+    if (value) onInput?.()
     
     // Auto-advance to next cell if value is entered
     if (value && isActive) {
@@ -71,7 +76,7 @@ export default function GuessRow({
         setCurrentFocus(nextPosition)
       }
     }
-  }, [isActive, navigationOrder])
+  }, [isActive, navigationOrder, onInput])
 
   const handleKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>, position: CellPosition) => {
     const currentIndex = navigationOrder.indexOf(position)
@@ -123,7 +128,7 @@ export default function GuessRow({
     const result: Result2x1 = { g, h }
     
     // Validate the complete guess (includes mathematical validation)
-    const validation = validateCompleteGuess(matrix, vector, result)
+    const validation = validateCompleteGuess(matrix, vector, result, hardModeGuesses)
     
     if (!validation.isValid) {
       setErrorMessage(validation.errors?.[0] || 'Invalid guess')
@@ -132,7 +137,7 @@ export default function GuessRow({
     
     // Submit the valid guess
     onSubmit?.({ matrix, vector, result })
-  }, [values, onSubmit])
+  }, [values, onSubmit, hardModeGuesses])
 
   // Check if all positions are complete
   const isComplete = Object.values(values).every(val => val !== '')
@@ -1,16 +1,40 @@
-import { getPuzzleNumber } from '@/lib/dailyPuzzle'
+import Link from 'next/link'
+import SettingsButton from './SettingsButton'
+import TodayPuzzleNumber from './TodayPuzzleNumber'
 
-export default function Header() {
-  const puzzleNumber = getPuzzleNumber()
+interface HeaderProps {
+  puzzleNumber?: number // archive puzzle being played; defaults to today's
+  practiceSeed?: string // practice puzzle being played
+  title?: string        // replaces the subtitle for pages that aren't a game
+}
+
+export default function Header({ puzzleNumber, practiceSeed, title }: HeaderProps) {
+  let subtitle: React.ReactNode
+  if (title !== undefined) {
+    subtitle = title
+  } else if (practiceSeed !== undefined) {
+    subtitle = `Practice · seed ${practiceSeed}`
+  } else if (puzzleNumber !== undefined) {
+    subtitle = `#${puzzleNumber} · Archive puzzle`
+  } else {
+    subtitle = <><TodayPuzzleNumber />Daily matrix multiplication puzzle</>
+  }
 
   return (
     <header className="text-center mb-8">
       <h1 className="text-4xl font-bold text-gray-900 mb-2">
-        MATRIXLE
+        <Link href="/">MATRIXLE</Link>
       </h1>
       <p className="text-gray-600 text-sm">
-        #{puzzleNumber} &middot; Daily matrix multiplication puzzle
+        {subtitle}
       </p>
+      <nav className="mt-2 text-sm text-blue-600 space-x-3">
+        <Link href="/" className="hover:underline">Today</Link>
+        <Link href="/archive" className="hover:underline">Archive</Link>
+        <Link href="/practice" className="hover:underline">Practice</Link>
+        <Link href="/groups" className="hover:underline">Groups</Link>
+        <SettingsButton />
+      </nav>
     </header>
   )
 }
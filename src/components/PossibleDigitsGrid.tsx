@@ -0,0 +1,53 @@
+import type { CellCandidates } from '@/lib/deduction'
+
+interface PossibleDigitsGridProps {
+  candidates: CellCandidates
+}
+
+function CandidateCell({ position, digits }: { position: string; digits: number[] }) {
+  const solved = digits.length === 1
+
+  return (
+    <div
+      className={`flex flex-col items-center justify-center w-16 h-12 rounded border-2 ${solved ? 'bg-green-50 border-green-400' : 'bg-white border-gray-300'}`}
+      aria-label={`Position ${position} could be ${digits.join(', ') || 'nothing'}`}
+    >
+      <span className="text-[10px] leading-none text-blue-600 font-semibold">{position}</span>
+      <span className={`font-mono leading-tight text-center ${solved ? 'text-lg font-bold text-green-700' : 'text-[10px] text-gray-700'}`}>
+        {digits.length === 10 ? 'any' : digits.join(' ')}
+      </span>
+    </div>
+  )
+}
+
+export default function PossibleDigitsGrid({ candidates }: PossibleDigitsGridProps) {
+  const [a, b, c, d, e, f, g, h] = candidates
+
+  return (
+    <div className="p-3 rounded-lg bg-gray-100">
+      <div className="text-center text-xs text-gray-500 mb-2">Possible digits per cell</div>
+      <div className="flex items-center justify-center gap-2">
+        <div className="flex flex-col gap-1">
+          <div className="flex gap-1">
+            <CandidateCell position="a" digits={a} />
+            <CandidateCell position="b" digits={b} />
+          </div>
+          <div className="flex gap-1">
+            <CandidateCell position="c" digits={c} />
+            <CandidateCell position="d" digits={d} />
+          </div>
+        </div>
+        <div className="text-lg font-bold text-gray-600">×</div>
+        <div className="flex flex-col gap-1">
+          <CandidateCell position="e" digits={e} />
+          <CandidateCell position="f" digits={f} />
+        </div>
+        <div className="text-lg font-bold text-gray-600">=</div>
+        <div className="flex flex-col gap-1">
+          <CandidateCell position="g" digits={g} />
+          <CandidateCell position="h" digits={h} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import GuessRow from './GuessRow'
+import { formatGuessLimit } from '@/lib/engine'
+import { getGuessDurations, getSolveTime } from '@/lib/replay'
+import { formatDuration } from '@/lib/timer'
+import { describeShareOutcome } from '@/lib/shareService'
+import { useShare } from '@/hooks/useShare'
+import ShareTextDialog from './ShareTextDialog'
+import type { Guess } from '@/types/game'
+
+const SPEEDS = [1, 2, 5, 10, 60]
+const MIN_STEP_MS = 400 // so instant guesses still read as separate steps
+
+// Decoded on the server, which holds the answers to daily puzzles
+interface ReplayViewerProps {
+  guesses: Guess[]
+  maxGuesses: number | null
+}
+
+export default function ReplayViewer({ guesses, maxGuesses }: ReplayViewerProps) {
+  const durations = useMemo(() => getGuessDurations(guesses), [guesses])
+  const [shown, setShown] = useState(0)
+  const [playing, setPlaying] = useState(true)
+  const [speed, setSpeed] = useState(1)
+  const { share, outcome: shareOutcome, manualText, closeManual } = useShare()
+
+  const total = guesses.length
+  const finished = shown >= total
+
+  // Reveal the next guess after its real gap, scaled by the speed
+  useEffect(() => {
+    if (!playing || finished) return
+    const delay = Math.max(MIN_STEP_MS, (durations[shown] ?? 0) / speed)
+    const timer = setTimeout(() => setShown(prev => prev + 1), delay)
+    return () => clearTimeout(timer)
+  }, [playing, finished, shown, speed, durations])
+
+  const won = guesses[total - 1].feedback.every(color => color === 'correct')
+  const limit = formatGuessLimit(maxGuesses)
+
+  const handleRestart = () => {
+    setShown(0)
+    setPlaying(true)
+  }
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <p className="text-center text-sm text-gray-600 mb-4">
+        {won ? `Solved in ${total}/${limit}` : `Not solved (X/${limit})`}
+        {' · '}
+        {formatDuration(getSolveTime(guesses))} from first guess to last
+      </p>
+
+      <div className="flex items-center justify-center gap-2 flex-wrap mb-6 text-sm">
+        {finished ? (
+          <button onClick={handleRestart} className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            Replay
+          </button>
+        ) : (
+          <button
+            onClick={() => setPlaying(prev => !prev)}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+        )}
+        <button
+          onClick={() => setShown(prev => Math.min(total, prev + 1))}
+          disabled={finished}
+          className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Next guess
+        </button>
+        <span className="text-gray-500 ml-2">Speed</span>
+        {SPEEDS.map(option => (
+          <button
+            key={option}
+            onClick={() => setSpeed(option)}
+            className={`px-2 py-1 rounded-md border ${speed === option ? 'bg-gray-800 text-white border-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+          >
+            {option}×
+          </button>
+        ))}
+        <button
+          onClick={() => share(window.location.href)}
+          className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 ml-2"
+        >
+          {describeShareOutcome(shareOutcome) ?? 'Share link'}
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {Array.from({ length: maxGuesses ?? total }, (_, index) => {
+          const revealed = index < shown
+          const guess = revealed ? guesses[index] : undefined
+          const duration = durations[index]
+          return (
+            <div key={`${index}-${revealed}`} className="relative">
+              <GuessRow
+                rowIndex={index}
+                isActive={false}
+                isSubmitted={revealed}
+                feedback={guess?.feedback}
+                guess={guess}
+              />
+              {revealed && (
+                <span className="absolute right-0 top-1/2 -translate-y-1/2 text-xs text-gray-500 font-mono">
+                  {duration === null ? 'first' : `+${formatDuration(duration)}`}
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+      <ShareTextDialog text={manualText} onClose={closeManual} />
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import { useState } from 'react'
+import SettingsModal from './SettingsModal'
+
+export default function SettingsButton() {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <>
+      <button onClick={() => setIsOpen(true)} className="hover:underline">
+        Settings
+      </button>
+      <SettingsModal isOpen={isOpen} onClose={() => setIsOpen(false)} />
+    </>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { loadSettings, saveSettings, type Settings } from '@/lib/settings'
+import { getTodayString } from '@/lib/dailyPuzzle'
+import { downloadBlob } from '@/lib/shareService'
+import { exportProgress, getExportFileName, importProgress, type ImportSummary } from '@/lib/progressFile'
+
+interface SettingsModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const LOCAL_ZONE = '' // select value for "device local time"
+
+function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] }
+  return intl.supportedValuesOf?.('timeZone') ?? ['UTC']
+}
+
+function describeImport(summary: ImportSummary): string {
+  const parts = [
+    `${summary.added.length} added`,
+    `${summary.replaced.length} replaced`,
+    `${summary.kept.length} kept from this browser`,
+  ]
+  if (summary.rejected.length > 0) parts.push(`${summary.rejected.length} skipped as invalid`)
+  const bests = summary.personalBests.length > 0 ? ` ${summary.personalBests.length} personal bests improved.` : ''
+  const groups = summary.groups.length > 0 ? ` ${summary.groups.length} groups joined.` : ''
+  const boards = summary.friendResults.length > 0 ? ` Friends' results added on ${summary.friendResults.length} boards.` : ''
+  return `Games: ${parts.join(', ')}.${bests}${groups}${boards} Settings imported.`
+}
+
+export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [timeZones, setTimeZones] = useState<string[]>([])
+  const [importResult, setImportResult] = useState<{ message: string; rejected: string[]; failed: boolean } | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setSettings(loadSettings())
+      setTimeZones(listTimeZones())
+      setImportResult(null)
+    }
+  }, [isOpen])
+
+  if (!isOpen || !settings) return null
+
+  const update = (changes: Partial<Settings>) => {
+    const next = { ...settings, ...changes }
+    setSettings(next)
+    saveSettings(next)
+  }
+
+  const handleExport = () => {
+    const today = getTodayString()
+    const file = exportProgress(settings, today)
+    downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), getExportFileName(today))
+  }
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const summary = importProgress(await file.text())
+      update(summary.settings)
+      setImportResult({
+        message: describeImport(summary),
+        rejected: summary.rejected.map(({ date, error }) => `${date}: ${error}`),
+        failed: false,
+      })
+    } catch (error) {
+      setImportResult({ message: (error as Error).message, rejected: [], failed: true })
+    }
+  }
+
+  const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-8 max-w-md w-full mx-4 relative text-left text-gray-800">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-xl"
+        >
+          ×
+        </button>
+
+        <h2 className="text-2xl font-bold mb-6 text-center">Settings</h2>
+
+        <div className="space-y-1">
+          <label htmlFor="rollover-zone" className="block text-sm font-semibold">
+            Daily rollover time zone
+          </label>
+          <select
+            id="rollover-zone"
+            value={settings.rolloverTimeZone ?? LOCAL_ZONE}
+            onChange={(e) => update({ rolloverTimeZone: e.target.value === LOCAL_ZONE ? null : e.target.value })}
+            className="w-full px-2 py-1 border-2 border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={LOCAL_ZONE}>Device local time ({deviceZone})</option>
+            {timeZones.map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">
+            The new puzzle arrives at midnight in this zone. Teams can pick one shared zone to stay on the same puzzle.
+          </p>
+        </div>
+
+        <div className="mt-6 space-y-1">
+          <label className="flex items-center gap-2 text-sm font-semibold">
+            <input
+              type="checkbox"
+              checked={settings.showRemainingCount}
+              onChange={(e) => update({ showRemainingCount: e.target.checked })}
+              className="w-4 h-4"
+            />
+            Show possible answers remaining
+          </label>
+          <p className="text-xs text-gray-500">
+            After each guess, count the equations that still fit every hint so far. Off by default — it&apos;s a big hint.
+          </p>
+        </div>
+
+        <div className="mt-6 space-y-1">
+          <label className="flex items-center gap-2 text-sm font-semibold">
+            <input
+              type="checkbox"
+              checked={settings.showCellCandidates}
+              onChange={(e) => update({ showCellCandidates: e.target.checked })}
+              className="w-4 h-4"
+            />
+            Show possible digits per cell
+          </label>
+          <p className="text-xs text-gray-500">
+            Combine every hint with the multiplication to narrow down what each cell can still be.
+          </p>
+        </div>
+
+        <div className="mt-6 space-y-1">
+          <label className="flex items-center gap-2 text-sm font-semibold">
+            <input
+              type="checkbox"
+              checked={settings.timedMode}
+              onChange={(e) => update({ timedMode: e.target.checked })}
+              className="w-4 h-4"
+            />
+            Timed mode
+          </label>
+          <p className="text-xs text-gray-500">
+            Start a clock on your first keystroke and stop it when the game ends. Time with the tab hidden doesn&apos;t count.
+          </p>
+        </div>
+
+        <div className="mt-6 pt-6 border-t border-gray-200 space-y-2">
+          <h3 className="text-sm font-semibold">Progress</h3>
+          <p className="text-xs text-gray-500">
+            Move your games, streaks, personal bests and settings to another browser. Importing merges with what&apos;s here:
+            for each day, a finished game wins over an unfinished one, then the one with more guesses.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+            >
+              Export progress
+            </button>
+            <label className="px-3 py-1 bg-gray-600 text-white rounded-md text-sm hover:bg-gray-700 cursor-pointer">
+              Import progress
+              <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </label>
+          </div>
+          {importResult && (
+            <div className={`text-xs ${importResult.failed ? 'text-red-600' : 'text-gray-700'}`} role="status">
+              <p>{importResult.message}</p>
+              {importResult.rejected.length > 0 && (
+                <ul className="list-disc list-inside text-red-600">
+                  {importResult.rejected.map(line => <li key={line}>{line}</li>)}
+                </ul>
+              )}
+              {!importResult.failed && (
+                <button onClick={() => window.location.reload()} className="mt-1 text-blue-600 hover:underline">
+                  Reload to see imported games
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
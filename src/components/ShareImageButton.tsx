@@ -0,0 +1,52 @@
+'use client'
+
+import { useState } from 'react'
+import { layoutShareImage, renderShareImage } from '@/lib/shareImage'
+import { describeShareOutcome, shareFile, type FileShareOutcome } from '@/lib/shareService'
+import { formatShareScore, formatShareTitle, getShareFlags, type ShareOptions } from '@/lib/share'
+import type { Guess } from '@/types/game'
+
+interface ShareImageButtonProps {
+  guesses: Guess[]
+  shareLabel: number | string
+  status: 'won' | 'lost'
+  retried: boolean
+  options: ShareOptions
+  className: string
+}
+
+export default function ShareImageButton({ guesses, shareLabel, status, retried, options, className }: ShareImageButtonProps) {
+  const [includeFlags, setIncludeFlags] = useState(true)
+  const [outcome, setOutcome] = useState<FileShareOutcome | 'failed' | null>(null)
+
+  const handleShare = async () => {
+    const title = `Matrixle ${formatShareTitle(shareLabel)} ${formatShareScore(guesses.length, status, retried, options.maxGuesses)}`
+    const flags = getShareFlags(options)
+    const subtitle = includeFlags && flags.length > 0 ? flags.join(' · ') : null
+    try {
+      const blob = await renderShareImage(layoutShareImage(guesses, title, subtitle))
+      const fileName = `matrixle-${String(shareLabel).replace(/\s+/g, '-').toLowerCase()}.png`
+      setOutcome(await shareFile(new File([blob], fileName, { type: 'image/png' })))
+    } catch {
+      setOutcome('failed')
+    }
+    setTimeout(() => setOutcome(null), 2000)
+  }
+
+  return (
+    <span className="inline-flex flex-col items-center gap-1">
+      <button onClick={handleShare} className={className}>
+        {outcome === 'failed' ? 'Image failed' : describeShareOutcome(outcome) ?? 'Share image'}
+      </button>
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        <input
+          type="checkbox"
+          checked={includeFlags}
+          onChange={(e) => setIncludeFlags(e.target.checked)}
+          className="w-3 h-3"
+        />
+        Show modes
+      </label>
+    </span>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+interface ShareTextDialogProps {
+  text: string | null // null = closed
+  onClose: () => void
+}
+
+/**
+ * Last resort when neither the share sheet nor the clipboard is available:
+ * show the text pre-selected so it can be copied by hand
+ */
+export default function ShareTextDialog({ text, onClose }: ShareTextDialogProps) {
+  if (text === null) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg shadow-xl p-8 max-w-md w-full mx-4 relative text-left text-gray-800">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-xl"
+        >
+          ×
+        </button>
+        <h2 className="text-xl font-bold mb-2 text-center">Copy your result</h2>
+        <p className="text-sm text-gray-600 mb-4 text-center">
+          Your browser blocked the clipboard. Select the text below and copy it.
+        </p>
+        <textarea
+          readOnly
+          autoFocus
+          value={text}
+          onFocus={(e) => e.target.select()}
+          rows={Math.min(16, text.split('\n').length + 1)}
+          className="w-full p-2 border-2 border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { calculateStats, readDailyResults, type GameStats } from '@/lib/stats'
+import { getTodayString } from '@/lib/dailyPuzzle'
+
+interface StatsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  highlightGuessCount?: number // today's result, highlighted in the histogram
+}
+
+function Stat({ value, label }: { value: number | string; label: string }) {
+  return (
+    <div className="flex flex-col items-center">
+      <span className="text-2xl font-bold text-gray-800">{value}</span>
+      <span className="text-xs text-gray-500 text-center leading-tight">{label}</span>
+    </div>
+  )
+}
+
+export default function StatsModal({ isOpen, onClose, highlightGuessCount }: StatsModalProps) {
+  const [stats, setStats] = useState<GameStats | null>(null)
+
+  // Rebuild from the per-day saves every time it opens
+  useEffect(() => {
+    if (isOpen) setStats(calculateStats(readDailyResults(), getTodayString()))
+  }, [isOpen])
+
+  if (!isOpen || !stats) return null
+
+  const rows = [
+    ...stats.distribution.map((count, i) => ({ label: `${i + 1}`, count, highlight: highlightGuessCount === i + 1 })),
+    { label: 'X', count: stats.losses, highlight: false },
+  ]
+  const maxCount = Math.max(1, ...rows.map(row => row.count))
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-8 max-w-md w-full mx-4 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 text-xl"
+        >
+          ×
+        </button>
+
+        <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Statistics</h2>
+
+        <div className="grid grid-cols-5 gap-2 mb-6">
+          <Stat value={stats.played} label="Played" />
+          <Stat value={stats.winPercentage} label="Win %" />
+          <Stat value={stats.currentStreak} label="Current streak" />
+          <Stat value={stats.maxStreak} label="Max streak" />
+          <Stat value={stats.retryWins} label="Retry wins" />
+        </div>
+
+        <h3 className="text-sm font-semibold text-gray-700 mb-2 text-center">Guess distribution</h3>
+        <div className="space-y-1">
+          {rows.map(row => (
+            <div key={row.label} className="flex items-center gap-2 text-sm">
+              <span className="w-3 text-right text-gray-600">{row.label}</span>
+              <div
+                className={`px-2 text-right text-white font-semibold rounded-sm ${row.highlight ? 'bg-green-500' : 'bg-gray-500'}`}
+                style={{ width: `${Math.max(8, (row.count / maxCount) * 100)}%` }}
+              >
+                {row.count}
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-4 text-center">
+          Wins after a retry count toward games played but not the distribution or streaks.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import { useToday } from '@/hooks/useToday'
+import { getPuzzleNumber } from '@/lib/dailyPuzzle'
+
+/**
+ * Today's puzzle number, resolved in the browser so it follows the player's
+ * rollover zone rather than the server's clock
+ */
+export default function TodayPuzzleNumber() {
+  const today = useToday()
+  if (!today) return null
+  return <>#{getPuzzleNumber(today)} &middot; </>
+}
@@ -1,8 +1,14 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { useShare } from '@/hooks/useShare'
+import { describeShareOutcome } from '@/lib/shareService'
 import { formatShareText } from '@/lib/share'
-import { getPuzzleNumber } from '@/lib/dailyPuzzle'
+import { formatDuration } from '@/lib/timer'
+import type { PersonalBest } from '@/lib/personalBests'
+import DifficultyBadge from './DifficultyBadge'
+import ShareImageButton from './ShareImageButton'
+import ShareTextDialog from './ShareTextDialog'
 import type { Guess } from '@/types/game'
 
 interface WinModalProps {
@@ -11,18 +17,24 @@ interface WinModalProps {
   guessCount: number
   retried: boolean
   guesses: Guess[]
+  shareLabel: number | string
+  difficulty: number
+  hardMode: boolean
+  timeMs?: number // solve time of a timed game
+  maxGuesses: number | null
+  personalBest?: { best: PersonalBest; isBest: boolean } | null
+  beatPercentage?: number | null // share of players worldwide this result beat
+  footerNote: string
+  onShowAnalysis: () => void
+  onShowStats?: () => void // omitted for games that don't count toward stats
 }
 
-export default function WinModal({ isOpen, onClose, guessCount, retried, guesses }: WinModalProps) {
+export default function WinModal({ isOpen, onClose, guessCount, retried, guesses, shareLabel, difficulty, hardMode, timeMs, maxGuesses, personalBest, beatPercentage, footerNote, onShowAnalysis, onShowStats }: WinModalProps) {
   const [showConfetti, setShowConfetti] = useState(false)
-  const [copied, setCopied] = useState(false)
+  const { share, outcome, manualText, closeManual } = useShare()
 
-  const handleCopy = () => {
-    const text = formatShareText(guesses, getPuzzleNumber(), guessCount, 'won', retried)
-    navigator.clipboard.writeText(text).then(() => {
-      setCopied(true)
-      setTimeout(() => setCopied(false), 2000)
-    })
+  const handleShare = () => {
+    share(formatShareText(guesses, shareLabel, guessCount, 'won', retried, { difficulty, hardMode, timeMs, maxGuesses }))
   }
 
   useEffect(() => {
@@ -74,16 +86,54 @@ export default function WinModal({ isOpen, onClose, guessCount, retried, guesses
           <p className="text-gray-600 mb-2">
             You solved it in {guessCount} guess{guessCount !== 1 ? 'es' : ''}!
           </p>
+          {timeMs !== undefined && (
+            <p className="text-gray-800 font-mono text-lg mb-1">⏱ {formatDuration(timeMs)}</p>
+          )}
+          {personalBest && (
+            <p className="text-sm text-gray-600 mb-2">
+              {personalBest.isBest
+                ? '🏅 Personal best for this puzzle!'
+                : `Personal best for this puzzle: ${formatDuration(personalBest.best.timeMs)}`}
+            </p>
+          )}
+          {beatPercentage !== undefined && beatPercentage !== null && (
+            <p className="text-sm text-gray-600 mb-2">🌍 You beat {beatPercentage}% of players</p>
+          )}
+          <div className="mb-2">
+            <DifficultyBadge difficulty={difficulty} />
+          </div>
           <p className="text-sm text-gray-500 mb-6">
-            Come back tomorrow for a new puzzle!
+            {footerNote}
           </p>
-          <div className="flex gap-3 justify-center">
+          <div className="flex gap-3 justify-center flex-wrap">
             <button
-              onClick={handleCopy}
+              onClick={handleShare}
               className="px-6 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 transition-colors"
             >
-              {copied ? 'Copied!' : 'Copy result'}
+              {describeShareOutcome(outcome) ?? 'Share result'}
             </button>
+            <ShareImageButton
+              guesses={guesses}
+              shareLabel={shareLabel}
+              status="won"
+              retried={retried}
+              options={{ difficulty, hardMode, timeMs, maxGuesses }}
+              className="px-6 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 transition-colors"
+            />
+            <button
+              onClick={onShowAnalysis}
+              className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Analysis
+            </button>
+            {onShowStats && (
+              <button
+                onClick={onShowStats}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Stats
+              </button>
+            )}
             <button
               onClick={onClose}
               className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
@@ -93,6 +143,7 @@ export default function WinModal({ isOpen, onClose, guessCount, retried, guesses
           </div>
         </div>
       </div>
+      <ShareTextDialog text={manualText} onClose={closeManual} />
     </div>
   )
 }
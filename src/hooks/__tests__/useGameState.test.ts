@@ -0,0 +1,94 @@
+import { act, renderHook } from '@testing-library/react'
+import { useGameState } from '../useGameState'
+import { requestFeedback } from '../../lib/guessClient'
+import { getDailyPuzzle } from '../../lib/dailyAnswer'
+import { generateFeedback } from '../../lib/feedback'
+import { getPuzzlePool, valuesKey } from '../../lib/puzzlePool'
+import { getSaveKey, readSavedGame } from '../../lib/saveFormat'
+import type { GuessRequest } from '../../lib/guessApi'
+import type { PuzzleValues } from '@/types/game'
+
+// Stands in for /api/guess
+jest.mock('../../lib/guessClient', () => ({ requestFeedback: jest.fn() }))
+
+const date = '2026-10-01'
+const answer = getDailyPuzzle(date)
+const [wrong, otherWrong] = getPuzzlePool().filter(values => valuesKey(values) !== valuesKey(answer))
+
+// Two tabs on the same daily puzzle, sharing localStorage
+function openTabs() {
+  return [renderHook(() => useGameState({ date })), renderHook(() => useGameState({ date }))]
+}
+
+async function guess(tab: { current: ReturnType<typeof useGameState> }, values: PuzzleValues) {
+  await act(() => tab.current.submitGuess(values))
+}
+
+// jsdom doesn't tell a window about its own writes, so play the browser's part
+function deliverSave(newValue = localStorage.getItem(getSaveKey(date))) {
+  act(() => {
+    window.dispatchEvent(new StorageEvent('storage', { key: getSaveKey(date), newValue }))
+  })
+}
+
+describe('useGameState across tabs', () => {
+  beforeEach(() => {
+    jest.mocked(requestFeedback).mockImplementation(async (request: GuessRequest) =>
+      generateFeedback(request.guess, getDailyPuzzle(request.date)))
+  })
+
+  afterEach(() => localStorage.clear())
+
+  test('bumps the save revision on every write', async () => {
+    const [{ result }] = openTabs()
+    expect(result.current.hydrated).toBe(true)
+    expect(readSavedGame(date)).toBeNull()
+
+    await guess(result, wrong)
+    expect(readSavedGame(date)?.revision).toBe(1)
+    await guess(result, otherWrong)
+    expect(readSavedGame(date)?.revision).toBe(2)
+    expect(readSavedGame(date)?.guesses).toHaveLength(2)
+  })
+
+  test('adopts a newer save from another tab', async () => {
+    const [{ result: first }, { result: second }] = openTabs()
+    await guess(first, wrong)
+    deliverSave()
+
+    expect(second.current.gameState.guesses).toHaveLength(1)
+    await guess(second, otherWrong)
+    expect(readSavedGame(date)?.revision).toBe(2)
+    expect(readSavedGame(date)?.guesses).toHaveLength(2)
+  })
+
+  test("doesn't overwrite a save newer than the one it last saw", async () => {
+    const [{ result: first }, { result: second }] = openTabs()
+    await guess(first, wrong)
+
+    // The second tab missed that save, so its guess was made on stale state
+    await guess(second, otherWrong)
+    expect(readSavedGame(date)?.revision).toBe(1)
+    expect(readSavedGame(date)?.guesses.map(valuesKey)).toEqual([valuesKey(wrong)])
+    expect(second.current.gameState.guesses.map(valuesKey)).toEqual([valuesKey(wrong)])
+  })
+
+  test("a stale tab can't reopen or shorten a finished game", async () => {
+    const [{ result: first }, { result: second }] = openTabs()
+    await guess(first, wrong)
+    const older = localStorage.getItem(getSaveKey(date))
+    await guess(first, answer)
+    expect(first.current.gameState.status).toBe('won')
+
+    // Changing anything from before the win takes the finished game instead
+    act(() => second.current.setHardMode(true))
+    expect(second.current.gameState.status).toBe('won')
+    expect(readSavedGame(date)).toMatchObject({ status: 'won', revision: 2 })
+    expect(readSavedGame(date)?.guesses).toHaveLength(2)
+
+    // and a late event carrying an older save is ignored
+    deliverSave(older)
+    expect(first.current.gameState.status).toBe('won')
+    expect(first.current.gameState.guesses).toHaveLength(2)
+  })
+})
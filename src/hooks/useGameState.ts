@@ -1,106 +1,187 @@
-import { useState, useCallback, useEffect } from 'react'
-import { generateFeedback, calculateDigitStats, isWinningGuess } from '@/lib/feedback'
-import { getDailyPuzzle } from '@/lib/dailyPuzzle'
-import type { Guess, Puzzle, DigitStat } from '@/types/game'
-import type { Matrix2x2, Vector2x1, Result2x1 } from '@/types/game'
+import { useState, useCallback, useEffect, useReducer, useRef } from 'react'
+import { getDailyPuzzleInfo } from '@/lib/dailyPuzzle'
+import { getPracticePuzzle } from '@/lib/practicePuzzle'
+import { createEngine, createGameState, gameReducer, hasAnswer } from '@/lib/engine'
+import { requestFeedback } from '@/lib/guessClient'
+import {
+  fromSavedGame,
+  getSaveKey,
+  loadDailyGame,
+  parseSavedGame,
+  readSavedGame,
+  saveDailyGame,
+  type SavedGame,
+} from '@/lib/saveFormat'
+import type { GameState, Puzzle, PuzzleInfo, PuzzleValues } from '@/types/game'
 
-export type GameStatus = 'playing' | 'won' | 'lost'
-
-export interface GameState {
-  puzzle: Puzzle
-  guesses: Guess[]
-  currentGuess: number
-  status: GameStatus
-  digitStats: Record<string, DigitStat>
-  retried: boolean
+export interface GameOptions {
+  date?: string         // archive date; omit for today's puzzle
+  practiceSeed?: string // play a practice puzzle instead of a daily one
 }
 
-function defaultState(puzzle?: Puzzle): GameState {
-  return {
-    puzzle: puzzle ?? getDailyPuzzle(),
-    guesses: [],
-    currentGuess: 0,
-    status: 'playing',
-    digitStats: {},
-    retried: false,
-  }
+// Daily puzzles come without their answer; their guesses are checked by the server
+function loadPuzzle({ date, practiceSeed }: GameOptions): Puzzle | PuzzleInfo {
+  return practiceSeed !== undefined ? getPracticePuzzle(practiceSeed) : getDailyPuzzleInfo(date)
 }
 
-export function useGameState() {
-  const [gameState, setGameState] = useState<GameState>(() => defaultState())
+/**
+ * Game state for a single puzzle: a thin React wrapper around the engine's
+ * reducer, adding persistence and tab sync. Each daily date keeps its own
+ * `matrixle-<date>` save (see saveFormat); practice games are never persisted,
+ * so they can't touch daily saves or stats. A save that can't be read is
+ * backed up and reported through `loadError` rather than silently dropped.
+ *
+ * Tabs showing the same daily puzzle stay in sync through `storage` events.
+ * Every write bumps the save's revision, and a tab never overwrites a save
+ * newer than the one it last saw: it adopts that save instead, so a stale tab
+ * can't erase guesses or reopen a finished game.
+ *
+ * Daily guesses go to /api/guess for their feedback, so submitting one is
+ * asynchronous: `checking` is true meanwhile, and a failure is reported
+ * through `guessError` with the guess left in place to send again.
+ */
+export function useGameState({ date, practiceSeed }: GameOptions = {}) {
+  const [engine, dispatch] = useReducer(gameReducer, { date, practiceSeed }, options => createEngine(loadPuzzle(options)))
+  const gameState = engine.state
   const [hydrated, setHydrated] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [guessError, setGuessError] = useState<string | null>(null)
+  // Revision of the save this tab last wrote or adopted, and the state it
+  // adopted from storage (which needs no write back)
+  const revisionRef = useRef(0)
+  const syncedStateRef = useRef<GameState | null>(null)
+
+  const adoptSave = useCallback((save: SavedGame, puzzle: Puzzle | PuzzleInfo) => {
+    const state = fromSavedGame(save, puzzle)
+    revisionRef.current = save.revision
+    syncedStateRef.current = state
+    dispatch({ type: 'Restored', state })
+  }, [])
 
   // Rehydrate from localStorage on mount
   useEffect(() => {
-    const puzzle = getDailyPuzzle()
-    try {
-      const saved = localStorage.getItem(`matrixle-${puzzle.date}`)
-      if (saved) {
-        const parsed = JSON.parse(saved) as GameState
-        parsed.guesses = parsed.guesses.map((g) => ({
-          ...g,
-          timestamp: new Date(g.timestamp),
-        }))
-        setGameState({ ...parsed, puzzle, digitStats: parsed.digitStats ?? {} })
+    const puzzle = loadPuzzle({ date, practiceSeed })
+    let restored = createGameState(puzzle)
+    let revision = 0
+    let error: string | null = null
+    if (puzzle.mode === 'daily') {
+      try {
+        const loaded = loadDailyGame(puzzle)
+        if (loaded.state) restored = loaded.state
+        if (loaded.error) error = loaded.error
+        revision = loaded.revision
+      } catch {
+        // storage unavailable (e.g. blocked cookies): play without saving
       }
-    } catch {
-      // ignore corrupt storage
     }
+    revisionRef.current = revision
+    syncedStateRef.current = restored
+    dispatch({ type: 'Restored', state: restored })
+    setLoadError(error)
     setHydrated(true)
-  }, [])
+  }, [date, practiceSeed])
 
   // Persist state to localStorage after hydration
   useEffect(() => {
-    if (!hydrated) return
-    localStorage.setItem(`matrixle-${gameState.puzzle.date}`, JSON.stringify(gameState))
-  }, [gameState, hydrated])
-
-  const submitGuess = useCallback((guessInput: {
-    matrix: Matrix2x2
-    vector: Vector2x1
-    result: Result2x1
-  }) => {
-    if (gameState.status !== 'playing') return
+    if (!hydrated || gameState.puzzle.mode !== 'daily' || gameState === syncedStateRef.current) return
+    try {
+      // Another tab saved since we last synced, so this change was made on
+      // stale state: take theirs rather than overwrite it
+      const stored = readSavedGame(gameState.puzzle.date)
+      if (stored && stored.revision > revisionRef.current) {
+        adoptSave(stored, gameState.puzzle)
+        return
+      }
+      revisionRef.current += 1
+      saveDailyGame(gameState, revisionRef.current)
+    } catch {
+      // storage full or unavailable
+    }
+  }, [gameState, hydrated, adoptSave])
 
-    const guess: Guess = {
-      ...guessInput,
-      feedback: [],
-      timestamp: new Date()
+  // Pick up saves written by other tabs
+  useEffect(() => {
+    const puzzle = gameState.puzzle
+    if (!hydrated || puzzle.mode !== 'daily') return
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== getSaveKey(puzzle.date) || e.newValue === null) return
+      const parsed = parseSavedGame(e.newValue)
+      if (parsed.ok && parsed.save.revision > revisionRef.current) adoptSave(parsed.save, puzzle)
     }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [gameState.puzzle, hydrated, adoptSave])
 
-    guess.feedback = generateFeedback(guess, gameState.puzzle)
+  // Timed games only count time while the page is visible
+  useEffect(() => {
+    if (!hydrated) return
+    const handleVisibility = () => {
+      dispatch({ type: document.hidden ? 'TimerPaused' : 'TimerResumed', at: Date.now() })
+    }
+    handleVisibility()
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
+  }, [hydrated, gameState.puzzle])
 
-    setGameState(prev => {
-      const newGuesses = [...prev.guesses, guess]
-      const newDigitStats = calculateDigitStats(newGuesses)
+  const submitGuess = useCallback(async (guess: PuzzleValues) => {
+    const timestamp = new Date()
+    if (hasAnswer(gameState.puzzle)) {
+      dispatch({ type: 'GuessSubmitted', guess, timestamp })
+      return
+    }
+    if (checking || gameState.status !== 'playing') return
+    setChecking(true)
+    setGuessError(null)
+    try {
+      const feedback = await requestFeedback({
+        date: gameState.puzzle.date,
+        guess,
+        guessNumber: gameState.guesses.length + 1,
+        maxGuesses: gameState.maxGuesses,
+      })
+      dispatch({ type: 'GuessSubmitted', guess, timestamp, feedback })
+    } catch (error) {
+      setGuessError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setChecking(false)
+    }
+  }, [gameState.puzzle, gameState.status, gameState.guesses.length, gameState.maxGuesses, checking])
 
-      const isWin = isWinningGuess(guess, prev.puzzle)
-      const isGameOver = newGuesses.length >= 6
+  const retryGame = useCallback(() => dispatch({ type: 'Retried' }), [])
 
-      let newStatus: GameStatus = 'playing'
-      if (isWin) newStatus = 'won'
-      else if (isGameOver) newStatus = 'lost'
+  // Timed mode: the first keystroke starts the clock, and any keystroke
+  // restarts one left paused by a save adopted from another tab
+  const startTimer = useCallback(() => {
+    const at = Date.now()
+    dispatch({ type: 'TimerStarted', at })
+    dispatch({ type: 'TimerResumed', at })
+  }, [])
 
-      return {
-        ...prev,
-        guesses: newGuesses,
-        currentGuess: isWin || isGameOver ? prev.currentGuess : prev.currentGuess + 1,
-        status: newStatus,
-        digitStats: newDigitStats,
-      }
-    })
-  }, [gameState.status, gameState.puzzle])
+  const setHardMode = useCallback((hardMode: boolean) => {
+    dispatch({ type: 'HardModeSet', hardMode })
+  }, [])
 
-  const retryGame = useCallback(() => {
-    setGameState(prev => ({
-      ...defaultState(prev.puzzle),
-      retried: true,
-    }))
+  const setGuessLimit = useCallback((maxGuesses: number | null) => {
+    dispatch({ type: 'GuessLimitSet', maxGuesses })
   }, [])
 
+  const dismissLoadError = useCallback(() => setLoadError(null), [])
+  const dismissGuessError = useCallback(() => setGuessError(null), [])
+
   return {
     gameState,
+    eventLog: engine.log,
+    hydrated,
+    loadError,
+    dismissLoadError,
+    checking,
+    guessError,
+    dismissGuessError,
     submitGuess,
     retryGame,
+    setHardMode,
+    setGuessLimit,
+    startTimer,
   }
 }
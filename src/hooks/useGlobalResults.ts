@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react'
+import { getPuzzleNumber } from '@/lib/dailyPuzzle'
+import { DEFAULT_GUESS_LIMIT } from '@/lib/engine'
+import { getReplayParams } from '@/lib/replay'
+import { getBeatPercentage, getClientId, reportGlobalResult, requestDistribution } from '@/lib/resultsClient'
+import type { GameState } from '@/types/game'
+
+/**
+ * Report a finished daily game to the global results and return the share of
+ * players it beat. Only a first attempt counts, so retries report nothing;
+ * reloading a finished game reports it again, which the server ignores.
+ */
+export function useGlobalResults(gameState: GameState): number | null {
+  const [beatPercentage, setBeatPercentage] = useState<number | null>(null)
+  const { puzzle, guesses, status, retried, maxGuesses } = gameState
+  const finished = status !== 'playing' && puzzle.mode === 'daily' && !retried && maxGuesses === DEFAULT_GUESS_LIMIT
+
+  useEffect(() => {
+    setBeatPercentage(null)
+    if (!finished) return
+    let cancelled = false
+    const report = async () => {
+      let clientId: string
+      try {
+        clientId = getClientId()
+      } catch {
+        return // storage unavailable: can't dedupe, so don't count
+      }
+      await reportGlobalResult(getReplayParams(puzzle, guesses, maxGuesses), clientId)
+      const distribution = await requestDistribution(getPuzzleNumber(puzzle.date))
+      if (!cancelled && distribution) {
+        setBeatPercentage(getBeatPercentage(distribution, status === 'won' ? guesses.length : null))
+      }
+    }
+    report()
+    return () => {
+      cancelled = true
+    }
+  }, [finished, puzzle, guesses, status, maxGuesses])
+
+  return beatPercentage
+}
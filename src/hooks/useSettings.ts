@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react'
+import { DEFAULT_SETTINGS, SETTINGS_CHANGED_EVENT, loadSettings, type Settings } from '@/lib/settings'
+
+/**
+ * Current settings, updated whenever they are saved. Defaults until mounted.
+ */
+export function useSettings(): Settings {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+
+  useEffect(() => {
+    const update = () => setSettings(loadSettings())
+    update()
+    window.addEventListener(SETTINGS_CHANGED_EVENT, update)
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, update)
+  }, [])
+
+  return settings
+}
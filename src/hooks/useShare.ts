@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { shareText, type ShareOutcome } from '@/lib/shareService'
+
+const OUTCOME_MS = 2000 // how long "Copied!" and friends stay on the button
+
+/**
+ * Share text through the share service, remembering the outcome briefly for
+ * the button label and holding the text when it has to be copied by hand
+ */
+export function useShare() {
+  const [outcome, setOutcome] = useState<ShareOutcome | null>(null)
+  const [manualText, setManualText] = useState<string | null>(null)
+  const timeout = useRef<ReturnType<typeof setTimeout>>()
+
+  useEffect(() => () => clearTimeout(timeout.current), [])
+
+  const share = useCallback(async (text: string) => {
+    const result = await shareText(text)
+    setOutcome(result)
+    if (result === 'manual') setManualText(text)
+    clearTimeout(timeout.current)
+    timeout.current = setTimeout(() => setOutcome(null), OUTCOME_MS)
+  }, [])
+
+  const closeManual = useCallback(() => setManualText(null), [])
+
+  return { share, outcome, manualText, closeManual }
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react'
+import { getTodayString } from '@/lib/dailyPuzzle'
+import { SETTINGS_CHANGED_EVENT } from '@/lib/settings'
+
+const CHECK_INTERVAL_MS = 60 * 1000
+
+/**
+ * Today's puzzle date, kept current across local midnight and rollover
+ * time zone changes. Null until mounted, since the server can't know the
+ * player's zone.
+ */
+export function useToday(): string | null {
+  const [today, setToday] = useState<string | null>(null)
+
+  useEffect(() => {
+    const update = () => setToday(getTodayString())
+    update()
+
+    const interval = setInterval(update, CHECK_INTERVAL_MS)
+    document.addEventListener('visibilitychange', update)
+    window.addEventListener(SETTINGS_CHANGED_EVENT, update)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', update)
+      window.removeEventListener(SETTINGS_CHANGED_EVENT, update)
+    }
+  }, [])
+
+  return today
+}
@@ -0,0 +1,13 @@
+import { generateFeedback } from '../feedback'
+import type { Guess, PuzzleValues } from '@/types/game'
+
+// The puzzle the solver, deduction and analysis tests guess at
+export const answer: PuzzleValues = {
+  matrix: { a: 2, b: 1, c: 1, d: 3 },
+  vector: { e: 3, f: 2 },
+  result: { g: 8, h: 9 },
+}
+
+export function makeGuess(values: PuzzleValues, target: PuzzleValues = answer): Guess {
+  return { ...values, feedback: generateFeedback(values, target), timestamp: new Date() }
+}
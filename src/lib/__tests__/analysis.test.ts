@@ -0,0 +1,42 @@
+import { analyzeGame, MAX_PROBES } from '../analysis'
+import { answer, makeGuess } from '../__fixtures__/guesses'
+import { getRemainingSolutions } from '../solver'
+
+describe('Game Analysis', () => {
+  const guesses = [
+    makeGuess({ matrix: { a: 1, b: 1, c: 1, d: 1 }, vector: { e: 1, f: 1 }, result: { g: 2, h: 2 } }),
+    makeGuess({ matrix: { a: 2, b: 1, c: 1, d: 2 }, vector: { e: 3, f: 1 }, result: { g: 7, h: 5 } }),
+    makeGuess(answer),
+  ]
+
+  test('reports one entry per guess with chained candidate counts', () => {
+    const report = analyzeGame(guesses)
+    expect(report).toHaveLength(3)
+    expect(report[0].candidatesAfter).toBe(getRemainingSolutions(guesses.slice(0, 1)).length)
+    expect(report[1].candidatesBefore).toBe(report[0].candidatesAfter)
+    expect(report[2].candidatesAfter).toBe(1)
+  })
+
+  test('keeps skill and luck within 0–100', () => {
+    analyzeGame(guesses).forEach(row => {
+      expect(row.skill).toBeGreaterThanOrEqual(0)
+      expect(row.skill).toBeLessThanOrEqual(100)
+      expect(row.luck).toBeGreaterThanOrEqual(0)
+      expect(row.luck).toBeLessThanOrEqual(100)
+    })
+  })
+
+  test('flags solver picks weighed from a sample of the candidates', () => {
+    const report = analyzeGame(guesses)
+    expect(report[0].candidatesBefore).toBeGreaterThan(MAX_PROBES)
+    expect(report[0].solverPickSampled).toBe(true)
+    expect(report[2].candidatesBefore).toBeLessThanOrEqual(MAX_PROBES)
+    expect(report[2].solverPickSampled).toBe(false)
+  })
+
+  test('the solver picks a candidate that was still possible', () => {
+    const report = analyzeGame(guesses)
+    const remainingBeforeLast = getRemainingSolutions(guesses.slice(0, 2))
+    expect(remainingBeforeLast).toContainEqual(report[2].solverPick)
+  })
+})
@@ -0,0 +1,226 @@
+import {
+  getPuzzleNumber,
+  getDateForPuzzleNumber,
+  getArchiveDates,
+  isPublishedPuzzleNumber,
+  getDailyPuzzleInfo,
+  getTodayString,
+  formatDateInTimeZone,
+  findScheduledDate,
+  SCHEDULE_CUTOVER,
+} from '../dailyPuzzle'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { isPlayableDate } from '../guessApi'
+import { valuesKey, valuesToDigits } from '../puzzlePool'
+import { getCuratedEntries } from '../curatedPuzzles'
+import { getCuratedDifficulties } from '../scheduleCheck'
+import curatedDifficulties from '@/data/curatedDifficulties.json'
+
+describe('Daily Puzzle', () => {
+  describe('formatDateInTimeZone', () => {
+    // 2026-04-01 03:30 UTC: still March 31 in the Americas, April 1 in Asia
+    const instant = new Date('2026-04-01T03:30:00Z')
+
+    test('uses the calendar date in the given zone', () => {
+      expect(formatDateInTimeZone(instant, 'UTC')).toBe('2026-04-01')
+      expect(formatDateInTimeZone(instant, 'America/Los_Angeles')).toBe('2026-03-31')
+      expect(formatDateInTimeZone(instant, 'Asia/Tokyo')).toBe('2026-04-01')
+    })
+
+    test('players on the same local date share a puzzle number', () => {
+      const la = formatDateInTimeZone(new Date('2026-04-01T06:00:00Z'), 'America/Los_Angeles')
+      const tokyo = formatDateInTimeZone(new Date('2026-03-31T20:00:00Z'), 'Asia/Tokyo')
+      expect(la).toBe('2026-03-31')
+      expect(tokyo).toBe('2026-04-01')
+      expect(getPuzzleNumber(la)).toBe(3)
+      expect(getPuzzleNumber(tokyo)).toBe(4)
+    })
+  })
+
+  describe('getTodayString', () => {
+    afterEach(() => {
+      jest.useRealTimers()
+      localStorage.clear()
+    })
+
+    test('rolls over at midnight in the configured zone', () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-04-01T03:30:00Z'))
+      expect(getTodayString('America/New_York')).toBe('2026-03-31')
+      expect(getTodayString('Europe/Berlin')).toBe('2026-04-01')
+    })
+
+    test('reads the rollover zone from settings', () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-04-01T03:30:00Z'))
+      localStorage.setItem('matrixle-settings', JSON.stringify({ rolloverTimeZone: 'America/Chicago' }))
+      expect(getTodayString()).toBe('2026-03-31')
+    })
+  })
+
+  describe('getDateForPuzzleNumber', () => {
+    test('puzzle #1 is the epoch date', () => {
+      expect(getDateForPuzzleNumber(1)).toBe('2026-03-29')
+      expect(getPuzzleNumber('2026-03-29')).toBe(1)
+    })
+
+    test('round-trips with getPuzzleNumber across month boundaries', () => {
+      for (const date of ['2026-03-31', '2026-04-01', '2026-12-31', '2027-01-01']) {
+        expect(getDateForPuzzleNumber(getPuzzleNumber(date))).toBe(date)
+      }
+    })
+  })
+
+  describe('getArchiveDates', () => {
+    test('lists every date from the epoch through today', () => {
+      const dates = getArchiveDates()
+      expect(dates[0]).toBe('2026-03-29')
+      expect(dates).toHaveLength(getPuzzleNumber())
+      expect(getPuzzleNumber(dates[dates.length - 1])).toBe(getPuzzleNumber())
+    })
+  })
+
+  describe('isPublishedPuzzleNumber', () => {
+    test('accepts puzzles from #1 through today', () => {
+      expect(isPublishedPuzzleNumber(1)).toBe(true)
+      expect(isPublishedPuzzleNumber(getPuzzleNumber())).toBe(true)
+    })
+
+    test('rejects future, zero and non-integer puzzle numbers', () => {
+      expect(isPublishedPuzzleNumber(getPuzzleNumber() + 1)).toBe(false)
+      expect(isPublishedPuzzleNumber(0)).toBe(false)
+      expect(isPublishedPuzzleNumber(1.5)).toBe(false)
+      expect(isPublishedPuzzleNumber(NaN)).toBe(false)
+    })
+  })
+
+  describe('getDailyPuzzle', () => {
+    test('is deterministic per date and keyed by that date', () => {
+      const puzzle = getDailyPuzzle('2026-04-01')
+      expect(getDailyPuzzle('2026-04-01')).toEqual(puzzle)
+      expect(puzzle.id).toBe('daily-2026-04-01')
+      expect(puzzle.date).toBe('2026-04-01')
+    })
+
+    test('keeps the original puzzle for dates before the schedule cutover', () => {
+      expect(getDailyPuzzle('2026-03-29')).toMatchObject({
+        matrix: { a: 7, b: 2, c: 2, d: 3 },
+        vector: { e: 1, f: 1 },
+        result: { g: 9, h: 5 },
+      })
+      expect(getDailyPuzzle('2026-10-19')).toMatchObject({
+        matrix: { a: 1, b: 2, c: 2, d: 6 },
+        vector: { e: 1, f: 1 },
+        result: { g: 3, h: 8 },
+      })
+    })
+
+    test('keeps the scheduled puzzle where the legacy sampler gave up', () => {
+      const digits = (date: string) => valuesToDigits(getDailyPuzzle(date)).join('')
+      expect(digits('2026-08-07')).toBe('23151156')
+      expect(digits('2026-10-12')).toBe('11116288')
+      process.env.MATRIXLE_PUZZLE_SALT = 'secret'
+      try {
+        expect(digits('2026-08-07')).toBe('13421146')
+        expect(digits('2026-10-12')).toBe('14124186')
+      } finally {
+        delete process.env.MATRIXLE_PUZZLE_SALT
+      }
+    })
+
+    test('salts every date from the cutover on', () => {
+      const unsalted = getDailyPuzzle(SCHEDULE_CUTOVER)
+      process.env.MATRIXLE_PUZZLE_SALT = 'secret'
+      try {
+        expect(getDailyPuzzle(SCHEDULE_CUTOVER)).not.toEqual(unsalted)
+        expect(getDailyPuzzle('2026-10-20')).toMatchObject({ matrix: { a: 1, b: 2, c: 3, d: 3 } })
+      } finally {
+        delete process.env.MATRIXLE_PUZZLE_SALT
+      }
+    })
+
+    // The cutover must be a day nobody has been served yet when the salted
+    // schedule ships. Until then this fails as soon as it starts in UTC+14:
+    // move SCHEDULE_CUTOVER on (rating the extra legacy days) and release
+    // before the new date. Remove it once the salted schedule is live.
+    test('the cutover has not started anywhere yet', () => {
+      expect(isPlayableDate(SCHEDULE_CUTOVER)).toBe(false)
+    })
+
+    test('targets easier puzzles early in the week and harder ones on weekends', () => {
+      expect(getDailyPuzzle('2026-11-02').difficulty).toBe(1) // Monday
+      expect(getDailyPuzzle('2026-11-04').difficulty).toBe(3) // Wednesday
+      expect(getDailyPuzzle('2026-11-07').difficulty).toBe(5) // Saturday
+      expect(getDailyPuzzle('2026-11-08').difficulty).toBe(5) // Sunday
+    })
+
+    test('does not repeat a puzzle within the first year after the cutover', () => {
+      const start = getPuzzleNumber(SCHEDULE_CUTOVER)
+      const seen = new Set<string>()
+      for (let n = start; n < start + 365; n++) {
+        const { matrix, vector } = getDailyPuzzle(getDateForPuzzleNumber(n))
+        seen.add(JSON.stringify([matrix, vector]))
+      }
+      expect(seen.size).toBe(365)
+    })
+
+    test.each(['', 'secret'])('does not bring back puzzles published before the cutover (salt %p)', salt => {
+      if (salt) process.env.MATRIXLE_PUZZLE_SALT = salt
+      try {
+        const cutover = getPuzzleNumber(SCHEDULE_CUTOVER)
+        const published = new Set<string>()
+        for (let n = 1; n < cutover; n++) published.add(valuesKey(getDailyPuzzle(getDateForPuzzleNumber(n))))
+        for (let n = cutover; n < cutover + 365; n++) {
+          const date = getDateForPuzzleNumber(n)
+          expect([date, published.has(valuesKey(getDailyPuzzle(date)))]).toEqual([date, false])
+        }
+      } finally {
+        delete process.env.MATRIXLE_PUZZLE_SALT
+      }
+    })
+  })
+
+  describe('getDailyPuzzleInfo', () => {
+    test('rates every pre-cutover puzzle like the puzzle itself', () => {
+      for (let n = 1; n < getPuzzleNumber(SCHEDULE_CUTOVER); n++) {
+        const date = getDateForPuzzleNumber(n)
+        expect([date, getDailyPuzzleInfo(date).difficulty]).toEqual([date, getDailyPuzzle(date).difficulty])
+      }
+    })
+
+    test('matches the daily puzzle without its answer', () => {
+      ;['2026-04-01', '2026-10-19', '2026-11-02', '2026-11-07', '2027-02-14'].forEach(date => {
+        const { id, mode, difficulty } = getDailyPuzzle(date)
+        expect(getDailyPuzzleInfo(date)).toEqual({ id, date, mode, difficulty })
+      })
+    })
+  })
+
+  describe('findScheduledDate', () => {
+    test('finds the date a scheduled puzzle appears', () => {
+      const date = '2027-02-14'
+      const puzzle = getDailyPuzzle(date)
+      expect(findScheduledDate(puzzle)).toBe(date)
+      expect(findScheduledDate(puzzle, date)).toBe(date)
+    })
+
+    test('finds the next appearance after a given date', () => {
+      const date = '2027-02-14'
+      const next = findScheduledDate(getDailyPuzzle(date), '2027-02-15')
+      expect(next).not.toBeNull()
+      expect(next! > date).toBe(true)
+      expect(getDailyPuzzle(next!).matrix).toEqual(getDailyPuzzle(date).matrix)
+    })
+
+    test('returns null for invalid puzzles', () => {
+      expect(findScheduledDate({
+        matrix: { a: 9, b: 9, c: 9, d: 9 },
+        vector: { e: 9, f: 9 },
+        result: { g: 162, h: 162 },
+      })).toBeNull()
+    })
+  })
+
+  test('the checked-in curated ratings match the curated file', () => {
+    // `npm run schedule:check -- --write` regenerates them
+    expect(curatedDifficulties).toEqual(getCuratedDifficulties(getCuratedEntries()))
+  })
+})
@@ -0,0 +1,54 @@
+import { deduceCellCandidates } from '../deduction'
+import { answer, makeGuess } from '../__fixtures__/guesses'
+import { getAllEquations, getRemainingSolutions } from '../solver'
+import { valuesToDigits } from '../puzzlePool'
+
+describe('Cell Deduction', () => {
+  test('allows only the digits some possible answer uses before the first guess', () => {
+    const cells = deduceCellCandidates([])
+    // 9 in a–f would push g or h past 9
+    cells.slice(0, 6).forEach(cell => expect(cell).toEqual([1, 2, 3, 4, 5, 6, 7, 8]))
+    cells.slice(6).forEach(cell => expect(cell).toEqual([2, 3, 4, 5, 6, 7, 8, 9]))
+    deduceCellCandidates([], getAllEquations()).forEach(cell => {
+      expect(cell).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+    })
+  })
+
+  test('fixes green cells and removes yellow and gray digits from their cell', () => {
+    const guess = makeGuess({
+      matrix: { a: 2, b: 4, c: 5, d: 1 },
+      vector: { e: 6, f: 2 },
+      result: { g: 8, h: 4 },
+    })
+    const cells = deduceCellCandidates([guess])
+    expect(cells[0]).toEqual([2])
+    expect(cells[5]).toEqual([2])
+    expect(cells[6]).toEqual([8])
+    expect(cells[3]).not.toContain(1) // yellow
+    expect(cells[1]).not.toContain(4) // gray
+  })
+
+  test('combines facts across guesses and prunes with the arithmetic', () => {
+    const guesses = [
+      makeGuess({ matrix: { a: 2, b: 4, c: 5, d: 1 }, vector: { e: 6, f: 2 }, result: { g: 8, h: 4 } }),
+      makeGuess({ matrix: { a: 2, b: 1, c: 1, d: 1 }, vector: { e: 3, f: 2 }, result: { g: 8, h: 5 } }),
+    ]
+    const cells = deduceCellCandidates(guesses)
+    // a=2, b=1, e=3, f=2 are green, so g = 2·3 + 1·2 = 8
+    expect(cells[6]).toEqual([8])
+    // h = c·3 + d·2 with c, d ≥ 1 rules out tiny results
+    expect(cells[7]).not.toContain(0)
+    expect(cells[7]).not.toContain(4)
+  })
+
+  test('never rules out a digit that some remaining answer uses', () => {
+    const guesses = [
+      makeGuess({ matrix: { a: 1, b: 1, c: 1, d: 1 }, vector: { e: 1, f: 1 }, result: { g: 2, h: 2 } }),
+      makeGuess({ matrix: { a: 3, b: 1, c: 2, d: 1 }, vector: { e: 2, f: 1 }, result: { g: 7, h: 5 } }),
+    ]
+    const cells = deduceCellCandidates(guesses)
+    getRemainingSolutions(guesses).forEach(solution => {
+      valuesToDigits(solution).forEach((digit, i) => expect(cells[i]).toContain(digit))
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import {
+  rateDifficulty,
+  scorePuzzle,
+  getDifficultyLabel,
+  getWeekdayDifficulty,
+  DIFFICULTY_LEVELS,
+} from '../difficulty'
+import { getPuzzlePool } from '../puzzlePool'
+
+describe('Difficulty', () => {
+  describe('scorePuzzle', () => {
+    const values = {
+      matrix: { a: 1, b: 2, c: 2, d: 6 },
+      vector: { e: 1, f: 1 },
+      result: { g: 3, h: 8 },
+    }
+
+    test('rises with repeated digits', () => {
+      // digits 1,2,2,6,1,1,3,8: five distinct, three repeats
+      expect(scorePuzzle(values, 0)).toBe(3)
+    })
+
+    test('rises with equations sharing the same digits', () => {
+      expect(scorePuzzle(values, 3)).toBeGreaterThan(scorePuzzle(values, 1))
+    })
+  })
+
+  describe('rateDifficulty', () => {
+    test('splits the pool into equal-sized levels', () => {
+      const counts = new Array(DIFFICULTY_LEVELS).fill(0)
+      getPuzzlePool().forEach(p => counts[rateDifficulty(p) - 1]++)
+      const min = Math.min(...counts)
+      const max = Math.max(...counts)
+      expect(max - min).toBeLessThanOrEqual(1)
+    })
+
+    test('rates puzzles outside the pool as hardest', () => {
+      expect(rateDifficulty({
+        matrix: { a: 1, b: 0, c: 0, d: 1 },
+        vector: { e: 5, f: 3 },
+        result: { g: 5, h: 3 },
+      })).toBe(DIFFICULTY_LEVELS)
+    })
+  })
+
+  describe('getDifficultyLabel', () => {
+    test('names every level', () => {
+      expect(getDifficultyLabel(1)).toBe('Easy')
+      expect(getDifficultyLabel(DIFFICULTY_LEVELS)).toBe('Fiendish')
+      expect(getDifficultyLabel(0)).toBe('Unknown')
+    })
+  })
+
+  describe('getWeekdayDifficulty', () => {
+    test('starts the week easy and peaks on weekends', () => {
+      expect(getWeekdayDifficulty(1)).toBe(1)
+      expect(getWeekdayDifficulty(6)).toBe(DIFFICULTY_LEVELS)
+      expect(getWeekdayDifficulty(0)).toBe(DIFFICULTY_LEVELS)
+    })
+  })
+})
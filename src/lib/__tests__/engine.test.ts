@@ -0,0 +1,115 @@
+import { createEngine, gameReducer, replayGame, DEFAULT_GUESS_LIMIT as MAX_GUESSES, type GameEvent } from '../engine'
+import { getDailyPuzzle } from '../dailyAnswer'
+import type { FeedbackColor, PuzzleValues } from '@/types/game'
+
+describe('Game engine', () => {
+  const puzzle = getDailyPuzzle('2026-04-01')
+  const answer: PuzzleValues = { matrix: puzzle.matrix, vector: puzzle.vector, result: puzzle.result }
+  const wrong: PuzzleValues = {
+    matrix: { a: 0, b: 0, c: 0, d: 0 },
+    vector: { e: 0, f: 0 },
+    result: { g: 0, h: 0 },
+  }
+  const at = new Date('2026-04-01T12:00:00Z')
+  const guess = (values: PuzzleValues): GameEvent => ({ type: 'GuessSubmitted', guess: values, timestamp: at })
+
+  test('scores a guess and advances to the next row', () => {
+    const { state, log } = gameReducer(createEngine(puzzle), guess(wrong))
+
+    expect(state.guesses).toHaveLength(1)
+    expect(state.guesses[0].feedback).toHaveLength(8)
+    expect(state.currentGuess).toBe(1)
+    expect(state.status).toBe('playing')
+    expect(log).toEqual([guess(wrong)])
+  })
+
+  test('wins on the answer and loses after the last guess', () => {
+    expect(replayGame(puzzle, [guess(wrong), guess(answer)]).state.status).toBe('won')
+
+    const lost = replayGame(puzzle, new Array(MAX_GUESSES).fill(guess(wrong))).state
+    expect(lost.status).toBe('lost')
+    expect(lost.currentGuess).toBe(MAX_GUESSES - 1)
+  })
+
+  test('rejects events the rules forbid without logging them', () => {
+    const won = replayGame(puzzle, [guess(answer)])
+    expect(gameReducer(won, guess(wrong))).toBe(won)
+    expect(gameReducer(won, { type: 'Retried' })).toBe(won)
+    expect(gameReducer(won, { type: 'HardModeSet', hardMode: true })).toBe(won)
+  })
+
+  test('allows one retry after a loss, keeping hard mode', () => {
+    const lost = replayGame(puzzle, new Array(MAX_GUESSES).fill(guess(wrong)))
+    const lostInHardMode = gameReducer(lost, { type: 'Restored', state: { ...lost.state, hardMode: true } })
+    const { state, log } = gameReducer(lostInHardMode, { type: 'Retried' })
+
+    expect(state).toMatchObject({ guesses: [], status: 'playing', retried: true, hardMode: true })
+    expect(log).toHaveLength(MAX_GUESSES + 2)
+
+    const lostAgain = gameReducer(lost, { type: 'Restored', state: { ...lost.state, retried: true } })
+    expect(gameReducer(lostAgain, { type: 'Retried' })).toBe(lostAgain)
+  })
+
+  test('enforces hard mode against earlier hints', () => {
+    const first: PuzzleValues = { ...wrong, matrix: answer.matrix }
+    const engine = replayGame(puzzle, [{ type: 'HardModeSet', hardMode: true }, guess(first)])
+
+    expect(gameReducer(engine, guess(wrong))).toBe(engine)
+  })
+
+  test('follows the configured guess limit', () => {
+    const short = replayGame(puzzle, [{ type: 'GuessLimitSet', maxGuesses: 4 }, ...new Array(4).fill(guess(wrong))])
+    expect(short.state.status).toBe('lost')
+
+    const unlimited = replayGame(puzzle, [{ type: 'GuessLimitSet', maxGuesses: null }, ...new Array(10).fill(guess(wrong))])
+    expect(unlimited.state).toMatchObject({ status: 'playing', currentGuess: 10 })
+
+    const started = replayGame(puzzle, [guess(wrong)])
+    expect(gameReducer(started, { type: 'GuessLimitSet', maxGuesses: 8 })).toBe(started)
+    expect(gameReducer(createEngine(puzzle), { type: 'GuessLimitSet', maxGuesses: 0 }).log).toEqual([])
+  })
+
+  test('replaying the log rebuilds the same game', () => {
+    const played = [guess(wrong), { type: 'Retried' } as GameEvent, guess(answer)]
+      .reduce(gameReducer, replayGame(puzzle, new Array(MAX_GUESSES - 1).fill(guess(wrong))))
+
+    expect(replayGame(puzzle, played.log)).toEqual(played)
+  })
+
+  test('times a game only while the page is visible and stops at the end', () => {
+    const events: GameEvent[] = [
+      { type: 'TimerStarted', at: 1000 },
+      { type: 'TimerPaused', at: 5000 },
+      { type: 'TimerResumed', at: 60000 },
+      { type: 'GuessSubmitted', guess: answer, timestamp: new Date(70000) },
+    ]
+    const { state, log } = replayGame(puzzle, events)
+
+    expect(state.timer).toEqual({ elapsedMs: 14000, runningSince: null })
+    expect(log).toHaveLength(events.length)
+    expect(gameReducer(replayGame(puzzle, events), { type: 'TimerResumed', at: 80000 }).state.timer?.elapsedMs).toBe(14000)
+  })
+
+  test('only starts the clock before the first guess', () => {
+    const started = replayGame(puzzle, [guess(wrong)])
+    expect(gameReducer(started, { type: 'TimerStarted', at: 1000 })).toBe(started)
+  })
+
+  test('restores a saved game wholesale', () => {
+    const saved = replayGame(puzzle, [guess(wrong)]).state
+    const { state, log } = gameReducer(createEngine(puzzle), { type: 'Restored', state: saved })
+
+    expect(state).toBe(saved)
+    expect(log).toEqual([{ type: 'Restored', state: saved }])
+  })
+
+  test('takes feedback from the server when the puzzle has no answer here', () => {
+    const info = { id: puzzle.id, date: puzzle.date, mode: puzzle.mode, difficulty: puzzle.difficulty }
+    const scored = (values: PuzzleValues, feedback: FeedbackColor[]): GameEvent => ({ type: 'GuessSubmitted', guess: values, timestamp: at, feedback })
+    const engine = createEngine(info)
+
+    expect(gameReducer(engine, guess(answer))).toBe(engine) // nothing to score it against
+    expect(gameReducer(engine, scored(wrong, ['correct']))).toBe(engine)
+    expect(gameReducer(engine, scored(answer, new Array(8).fill('correct'))).state.status).toBe('won')
+  })
+})
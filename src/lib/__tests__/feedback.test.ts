@@ -5,6 +5,8 @@ describe('Feedback System', () => {
   const targetPuzzle: Puzzle = {
     id: 'test',
     date: '2024-01-01',
+    mode: 'daily',
+    difficulty: 1,
     matrix: { a: 2, b: 1, c: 1, d: 3 },
     vector: { e: 3, f: 2 },
     result: { g: 8, h: 9 }
@@ -95,6 +97,8 @@ describe('Feedback System', () => {
       const specialPuzzle: Puzzle = {
         id: 'test-duplicate',
         date: '2024-01-01',
+        mode: 'daily',
+        difficulty: 1,
         matrix: { a: 1, b: 1, c: 2, d: 3 }, // Two 1s in target
         vector: { e: 4, f: 5 },
         result: { g: 9, h: 2 } // 2 appears twice in target (position c and h)
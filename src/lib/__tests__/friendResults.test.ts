@@ -0,0 +1,57 @@
+import { addFriendResult, compareResults, loadFriendResults, removeFriendResult } from '../friendResults'
+import type { ParsedShare } from '../share'
+
+function share(overrides: Partial<ParsedShare> = {}): ParsedShare {
+  return {
+    label: 12,
+    status: 'won',
+    guessCount: 3,
+    retried: false,
+    maxGuesses: 6,
+    flags: [],
+    rows: [Array(8).fill('correct')],
+    warnings: [],
+    ...overrides,
+  }
+}
+
+describe('Friend results', () => {
+  afterEach(() => localStorage.clear())
+
+  test('keeps a board per puzzle, best first', () => {
+    addFriendResult('Ana', share({ guessCount: 4 }))
+    addFriendResult('Ben', share({ status: 'lost', guessCount: 6 }))
+    const board = addFriendResult('Cy', share({ guessCount: 2 }))
+    expect(board.map(result => result.name)).toEqual(['Cy', 'Ana', 'Ben'])
+
+    addFriendResult('Dee', share({ label: 13 }))
+    expect(loadFriendResults()['#12']).toHaveLength(3)
+    expect(loadFriendResults()['#13']).toHaveLength(1)
+  })
+
+  test('replaces an earlier result under the same name', () => {
+    addFriendResult('Ana', share({ guessCount: 4 }))
+    const board = addFriendResult(' ana ', share({ guessCount: 2 }))
+    expect(board).toHaveLength(1)
+    expect(board[0]).toMatchObject({ name: 'ana', guessCount: 2 })
+  })
+
+  test('removes results', () => {
+    addFriendResult('Ana', share())
+    expect(removeFriendResult(12, 'Ana')).toEqual([])
+    expect(loadFriendResults()['#12']).toEqual([])
+  })
+
+  test('ranks retries after clean wins and breaks ties on time', () => {
+    const base = { status: 'won' as const, guessCount: 3, retried: false }
+    expect(compareResults({ ...base, retried: true, guessCount: 1 }, base)).toBeGreaterThan(0)
+    expect(compareResults({ ...base, timeMs: 50000 }, { ...base, timeMs: 60000 })).toBeLessThan(0)
+    expect(compareResults(base, { ...base, timeMs: 60000 })).toBeGreaterThan(0)
+    expect(compareResults(base, base)).toBe(0)
+  })
+
+  test('drops malformed entries from storage', () => {
+    localStorage.setItem('matrixle-friend-results', JSON.stringify({ '#12': [{ name: 'Ana' }], '#13': 'nope' }))
+    expect(loadFriendResults()).toEqual({ '#12': [] })
+  })
+})
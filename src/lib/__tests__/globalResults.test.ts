@@ -0,0 +1,76 @@
+import { getGlobalDistribution, getReporterKey, reportResult } from '../globalResults'
+import { createMemoryStore } from '../resultsStore'
+import { getBeatPercentage } from '../resultsClient'
+import { getPuzzleNumber } from '../dailyPuzzle'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { replayGame, type GameEvent } from '../engine'
+import { getReplayParams } from '../replay'
+import type { PuzzleValues } from '@/types/game'
+
+describe('Global results', () => {
+  const date = '2026-04-01'
+  const number = getPuzzleNumber(date)
+  const puzzle = getDailyPuzzle(date)
+  const answer: PuzzleValues = { matrix: puzzle.matrix, vector: puzzle.vector, result: puzzle.result }
+  const wrong: PuzzleValues = { matrix: { a: 0, b: 0, c: 0, d: 0 }, vector: { e: 0, f: 0 }, result: { g: 0, h: 0 } }
+
+  // Report body for a game of `wrongs` misses, then the answer unless `lost`
+  function report(clientId: string, wrongs: number, lost = false, maxGuesses: number | null = 6) {
+    const values = [...Array(wrongs).fill(wrong), ...(lost ? [] : [answer])]
+    const { state } = replayGame(puzzle, [
+      { type: 'GuessLimitSet', maxGuesses },
+      ...values.map((guess, i): GameEvent => ({ type: 'GuessSubmitted', guess, timestamp: new Date(i * 1000) })),
+    ])
+    const { puzzle: puzzleParam, g, limit } = getReplayParams(puzzle, state.guesses, maxGuesses)
+    return { clientId, puzzle: puzzleParam, g, limit }
+  }
+
+  test('tallies finished games once per browser', async () => {
+    const store = createMemoryStore()
+    expect(await reportResult(report('browser-one', 2), store)).toEqual({ ok: true, value: { counted: true } })
+    expect(await reportResult(report('browser-one', 0), store)).toEqual({ ok: true, value: { counted: false } })
+    await reportResult(report('browser-two', 0), store)
+    await reportResult(report('browser-three', 6, true), store)
+
+    expect(await getGlobalDistribution(number, store)).toEqual({
+      ok: true,
+      value: { puzzle: number, wins: [1, 0, 1], losses: 1, players: 3 },
+    })
+  })
+
+  test('rejects games the rules do not allow', async () => {
+    const store = createMemoryStore()
+    const unfinished = report('browser-one', 2, true)
+    expect(await reportResult(unfinished, store)).toMatchObject({ ok: false, status: 400 })
+    expect(await reportResult({ ...report('browser-one', 0), g: '12345678' }, store)).toMatchObject({ ok: false, status: 400 })
+    expect(await reportResult({ ...report('browser-one', 0), clientId: 'x' }, store)).toMatchObject({ ok: false, status: 400 })
+    expect(await reportResult({ ...report('browser-one', 0), puzzle: '99999' }, store)).toMatchObject({ ok: false, status: 400 })
+    expect(await reportResult(report('browser-one', 7, false, null), store)).toMatchObject({ ok: false, status: 400 })
+    expect(await reportResult(report('browser-one', 3, true, 4), store)).toMatchObject({ ok: false, status: 400 })
+    expect(await getGlobalDistribution(99999, store)).toMatchObject({ ok: false, status: 404 })
+  })
+
+  test('takes a puzzle once its day has started anywhere', async () => {
+    const store = createMemoryStore()
+    const started = new Date('2026-03-31T10:30:00Z') // April 1st in UTC+14 only
+    const notYet = new Date('2026-03-31T09:30:00Z')
+    expect(await reportResult(report('browser-one', 0), store, notYet)).toMatchObject({ ok: false, status: 400 })
+    expect(await getGlobalDistribution(number, store, notYet)).toMatchObject({ ok: false, status: 404 })
+    expect(await reportResult(report('browser-one', 0), store, started)).toEqual({ ok: true, value: { counted: true } })
+    expect(await getGlobalDistribution(number, store, started)).toMatchObject({ ok: true, value: { players: 1 } })
+  })
+
+  test('keeps reporter keys unlinkable across puzzles', () => {
+    expect(getReporterKey('browser-one', 4)).toBe(getReporterKey('browser-one', 4))
+    expect(getReporterKey('browser-one', 4)).not.toBe(getReporterKey('browser-one', 5))
+    expect(getReporterKey('browser-one', 4)).not.toContain('browser-one')
+  })
+
+  test('counts the players a result beat', () => {
+    const distribution = { puzzle: number, wins: [1, 2, 3, 2], losses: 2, players: 10 }
+    expect(getBeatPercentage(distribution, 2)).toBe(70)
+    expect(getBeatPercentage(distribution, 4)).toBe(20)
+    expect(getBeatPercentage(distribution, null)).toBe(0)
+    expect(getBeatPercentage({ ...distribution, wins: [], losses: 0, players: 0 }, 1)).toBe(0)
+  })
+})
@@ -0,0 +1,104 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createGroup, getGroup, joinGroup, submitGroupResult } from '../groupApi'
+import { createJsonFileGroupRepository, createMemoryGroupRepository } from '../groupRepository'
+import { getPuzzleNumber } from '../dailyPuzzle'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { replayGame } from '../engine'
+import { formatShareText } from '../share'
+import type { PuzzleValues } from '@/types/game'
+
+describe('Group API', () => {
+  const date = '2026-04-01'
+  const number = getPuzzleNumber(date)
+  const puzzle = getDailyPuzzle(date)
+  const answer: PuzzleValues = { matrix: puzzle.matrix, vector: puzzle.vector, result: puzzle.result }
+  const wrong: PuzzleValues = { matrix: { a: 0, b: 0, c: 0, d: 0 }, vector: { e: 0, f: 0 }, result: { g: 0, h: 0 } }
+
+  // Share text for a win after `wrongs` misses
+  function shareText(wrongs: number, label: number | string = number, maxGuesses: number | null = 6) {
+    const values = [...Array(wrongs).fill(wrong), answer]
+    const { state } = replayGame(puzzle, values.map((guess, i) => ({ type: 'GuessSubmitted', guess, timestamp: new Date(i * 1000) })))
+    return formatShareText(state.guesses, label, state.guesses.length, 'won', false, { maxGuesses, timeMs: 75_000 })
+  }
+
+  async function createdGroup() {
+    const repository = createMemoryGroupRepository()
+    const created = await createGroup({ name: '  Lunch   table ', member: 'Ana' }, repository)
+    if (!created.ok) throw new Error(created.error)
+    return { repository, code: created.value.group.inviteCode }
+  }
+
+  test('creates and joins groups by invite code', async () => {
+    const { repository, code } = await createdGroup()
+    expect(code).toMatch(/^[2-9A-HJKMNP-Z]{8}$/)
+
+    const joined = await joinGroup(code.toLowerCase(), { member: 'Ben' }, repository)
+    expect(joined).toMatchObject({ ok: true, value: { member: 'Ben', group: { name: 'Lunch table', members: ['Ana', 'Ben'] } } })
+    expect(await joinGroup(code, { member: 'ana' }, repository)).toMatchObject({ ok: true, value: { member: 'Ana' } })
+    expect(await joinGroup('ZZZZZZZZ', { member: 'Ben' }, repository)).toMatchObject({ ok: false, status: 404 })
+    expect(await createGroup({ name: '', member: 'Ana' }, repository)).toMatchObject({ ok: false, status: 400 })
+    expect(await createGroup({ name: 'Table', member: ' ' }, repository)).toMatchObject({ ok: false, status: 400 })
+  })
+
+  test('records results from share text, one per member and puzzle', async () => {
+    const { repository, code } = await createdGroup()
+    const now = new Date('2026-04-02T00:00:00Z')
+    await submitGroupResult(code, { member: 'ana', shareText: shareText(2) }, repository, now)
+    const result = await submitGroupResult(code, { member: 'Ana', shareText: shareText(0) }, repository, now)
+
+    expect(result.ok && result.value.results).toEqual([{
+      member: 'Ana',
+      puzzle: number,
+      status: 'won',
+      guessCount: 1,
+      retried: false,
+      timeMs: 75_000,
+      submittedAt: now.toISOString(),
+    }])
+    expect(await getGroup(code, repository)).toEqual(result)
+  })
+
+  test('turns away results that cannot count', async () => {
+    const { repository, code } = await createdGroup()
+    expect(await submitGroupResult(code, { member: 'Cy', shareText: shareText(0) }, repository)).toMatchObject({ ok: false, status: 400 })
+    expect(await submitGroupResult(code, { member: 'Ana', shareText: 'hello' }, repository)).toMatchObject({ ok: false, status: 400 })
+    expect(await submitGroupResult(code, { member: 'Ana', shareText: shareText(0, 'Practice abc123') }, repository)).toMatchObject({ ok: false, status: 400 })
+    expect(await submitGroupResult(code, { member: 'Ana', shareText: shareText(0, 99999) }, repository)).toMatchObject({ ok: false, status: 400 })
+    expect(await submitGroupResult(code, { member: 'Ana', shareText: shareText(0, number, null) }, repository)).toMatchObject({ ok: false, status: 400 })
+    expect(await submitGroupResult('ZZZZZZZZ', { member: 'Ana', shareText: shareText(0) }, repository)).toMatchObject({ ok: false, status: 404 })
+    expect(await getGroup(code, repository)).toMatchObject({ ok: true, value: { results: [] } })
+  })
+
+  test('takes results for a puzzle once its day has started anywhere', async () => {
+    const { repository, code } = await createdGroup()
+    const notYet = new Date('2026-03-31T09:30:00Z')
+    const started = new Date('2026-03-31T10:30:00Z') // April 1st in UTC+14 only
+    expect(await submitGroupResult(code, { member: 'Ana', shareText: shareText(0) }, repository, notYet))
+      .toEqual({ ok: false, status: 400, error: `Puzzle #${number} isn't out yet` })
+    expect(await submitGroupResult(code, { member: 'Ana', shareText: shareText(0) }, repository, started))
+      .toMatchObject({ ok: true, value: { results: [{ member: 'Ana', puzzle: number }] } })
+  })
+
+  describe('JSON file repository', () => {
+    let dir: string
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'matrixle-groups-'))
+    })
+    afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+    test('persists groups across instances', async () => {
+      const file = path.join(dir, 'nested', 'groups.json')
+      const repository = createJsonFileGroupRepository(file)
+      const group = await repository.create('Lunch table', 'Ana')
+      await Promise.all([repository.addMember(group.inviteCode, 'Ben'), repository.addMember(group.inviteCode, 'Cy')])
+      await submitGroupResult(group.inviteCode, { member: 'Ben', shareText: shareText(1) }, repository)
+
+      const reopened = await createJsonFileGroupRepository(file).get(group.inviteCode)
+      expect(reopened?.members).toEqual(['Ana', 'Ben', 'Cy'])
+      expect(reopened?.results).toMatchObject([{ member: 'Ben', puzzle: number, guessCount: 2 }])
+      expect(await repository.get('ZZZZZZZZ')).toBeNull()
+    })
+  })
+})
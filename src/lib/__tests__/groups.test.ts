@@ -0,0 +1,60 @@
+import { getDailyWinners, getGroupStandings, normalizeInviteCode, normalizeName, sortStandings, type Group, type GroupResult } from '../groups'
+import { getDateForPuzzleNumber } from '../dailyPuzzle'
+
+function result(member: string, puzzle: number, guessCount: number, extra: Partial<GroupResult> = {}): GroupResult {
+  return { member, puzzle, status: 'won', guessCount, retried: false, submittedAt: '2026-04-10T00:00:00.000Z', ...extra }
+}
+
+describe('Friend groups', () => {
+  const group: Group = {
+    name: 'Lunch table',
+    inviteCode: 'ABCD2345',
+    createdAt: '2026-04-01T00:00:00.000Z',
+    members: ['Ana', 'Ben', 'Cy'],
+    results: [
+      result('Ana', 10, 3, { timeMs: 90_000 }),
+      result('Ben', 10, 3, { timeMs: 60_000 }),
+      result('Cy', 10, 6, { status: 'lost' }),
+      result('Ana', 11, 2),
+      result('Ben', 11, 2),
+      result('Ana', 12, 6, { status: 'lost' }),
+      result('Ben', 12, 6, { status: 'lost' }),
+      result('Ben', 13, 4, { retried: true }),
+    ],
+  }
+  const today = getDateForPuzzleNumber(13)
+
+  test('names the best result per puzzle, sharing ties', () => {
+    expect(getDailyWinners(group)).toEqual([
+      { puzzle: 13, winners: ['Ben'] },
+      { puzzle: 12, winners: [] },
+      { puzzle: 11, winners: ['Ana', 'Ben'] },
+      { puzzle: 10, winners: ['Ben'] },
+    ])
+  })
+
+  test('builds standings from submitted results', () => {
+    const standings = getGroupStandings(group, today)
+    expect(standings.find(s => s.member === 'Ana')).toEqual({
+      member: 'Ana', played: 3, currentStreak: 0, maxStreak: 2, averageGuesses: 2.5, dailyWins: 1,
+    })
+    expect(standings.find(s => s.member === 'Ben')).toEqual({
+      member: 'Ben', played: 4, currentStreak: 0, maxStreak: 2, averageGuesses: 2.5, dailyWins: 3,
+    })
+    expect(standings.find(s => s.member === 'Cy')).toMatchObject({ played: 1, averageGuesses: null, dailyWins: 0 })
+  })
+
+  test('sorts by the chosen column', () => {
+    const standings = getGroupStandings(group, today)
+    expect(sortStandings(standings, 'streak').map(s => s.member)).toEqual(['Ben', 'Ana', 'Cy'])
+    expect(sortStandings(standings, 'dailyWins').map(s => s.member)).toEqual(['Ben', 'Ana', 'Cy'])
+    expect(sortStandings(standings, 'average').map(s => s.member)).toEqual(['Ben', 'Ana', 'Cy'])
+  })
+
+  test('normalizes names and invite codes', () => {
+    expect(normalizeName('  Ana   Lee ')).toBe('Ana Lee')
+    expect(normalizeName('   ')).toBeNull()
+    expect(normalizeName('x'.repeat(31))).toBeNull()
+    expect(normalizeInviteCode(' abcd-2345 ')).toBe('ABCD2345')
+  })
+})
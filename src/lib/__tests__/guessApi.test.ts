@@ -0,0 +1,56 @@
+import { checkDailyGuess, getRevealedAnswer, isAnswerRevealed, isPlayableDate, isPlayablePuzzleNumber } from '../guessApi'
+import { getPuzzleNumber } from '../dailyPuzzle'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { generateFeedback } from '../feedback'
+import type { PuzzleValues } from '@/types/game'
+
+describe('Guess API', () => {
+  const date = '2026-11-02'
+  const puzzle = getDailyPuzzle(date)
+  const answer: PuzzleValues = { matrix: puzzle.matrix, vector: puzzle.vector, result: puzzle.result }
+  const wrong: PuzzleValues = answer.matrix.a === 1 && answer.vector.e === 1
+    ? { matrix: { a: 2, b: 0, c: 0, d: 2 }, vector: { e: 1, f: 1 }, result: { g: 2, h: 2 } }
+    : { matrix: { a: 1, b: 0, c: 0, d: 1 }, vector: { e: 1, f: 1 }, result: { g: 1, h: 1 } }
+  // Midday UTC on the puzzle's date: it's that day nearly everywhere
+  const now = new Date(`${date}T12:00:00Z`)
+  const request = (overrides: object = {}) => ({ date, guess: wrong, guessNumber: 1, maxGuesses: 6, ...overrides })
+
+  test('scores a guess against the daily answer', () => {
+    expect(checkDailyGuess(request(), now)).toEqual({
+      ok: true,
+      value: { feedback: generateFeedback(wrong, puzzle), status: 'playing' },
+    })
+    expect(checkDailyGuess(request({ guess: answer }), now)).toMatchObject({ ok: true, value: { status: 'won' } })
+    expect(checkDailyGuess(request({ guessNumber: 6 }), now)).toMatchObject({ ok: true, value: { status: 'lost' } })
+    expect(checkDailyGuess(request({ guessNumber: 9, maxGuesses: null }), now)).toMatchObject({ ok: true, value: { status: 'playing' } })
+  })
+
+  test('rejects malformed requests', () => {
+    expect(checkDailyGuess(null, now)).toMatchObject({ ok: false, status: 400 })
+    expect(checkDailyGuess(request({ date: '2026-02-30' }), now)).toMatchObject({ ok: false, status: 400 })
+    expect(checkDailyGuess(request({ guess: { matrix: {}, vector: {}, result: {} } }), now)).toMatchObject({ ok: false, status: 400 })
+    expect(checkDailyGuess(request({ guess: { ...wrong, result: { g: 9, h: 9 } } }), now))
+      .toEqual({ ok: false, status: 400, error: 'guess is not a valid equation' })
+    expect(checkDailyGuess(request({ guessNumber: 0 }), now)).toMatchObject({ ok: false, status: 400 })
+    expect(checkDailyGuess(request({ maxGuesses: 0 }), now)).toMatchObject({ ok: false, status: 400 })
+  })
+
+  test('refuses dates that have not started anywhere', () => {
+    expect(isPlayableDate('2026-11-03', now)).toBe(true) // already the 3rd in UTC+14
+    expect(isPlayableDate('2026-11-04', now)).toBe(false)
+    expect(checkDailyGuess(request({ date: '2026-11-04' }), now)).toMatchObject({ ok: false, status: 404 })
+    expect(isPlayablePuzzleNumber(getPuzzleNumber('2026-11-03'), now)).toBe(true)
+    expect(isPlayablePuzzleNumber(getPuzzleNumber('2026-11-04'), now)).toBe(false)
+    expect(isPlayablePuzzleNumber(0, now)).toBe(false)
+    expect(isPlayablePuzzleNumber(1.5, now)).toBe(false)
+  })
+
+  test('reveals an answer only once its day has ended everywhere', () => {
+    expect(isAnswerRevealed(date, now)).toBe(false)
+    expect(isAnswerRevealed(date, new Date('2026-11-03T11:59:00Z'))).toBe(false) // still the 2nd in UTC-12
+    expect(isAnswerRevealed(date, new Date('2026-11-03T12:00:00Z'))).toBe(true)
+
+    expect(getRevealedAnswer(date, now)).toMatchObject({ ok: false, status: 404 })
+    expect(getRevealedAnswer(date, new Date('2026-11-04T00:00:00Z'))).toEqual({ ok: true, value: answer })
+  })
+})
@@ -0,0 +1,56 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createJsonFile } from '../jsonFile'
+
+interface Counter {
+  count: number
+}
+
+function isCounter(value: unknown): value is Counter {
+  return typeof value === 'object' && value !== null && typeof (value as Counter).count === 'number'
+}
+
+describe('JSON file', () => {
+  let dir: string
+  let file: string
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'matrixle-json-'))
+    file = path.join(dir, 'counter.json')
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    jest.restoreAllMocks()
+  })
+
+  const increment = (data: Counter) => {
+    data.count += 1
+    return { changed: true, result: data.count }
+  }
+
+  test('picks up changes made to the file between operations', async () => {
+    const counter = createJsonFile(file, () => ({ count: 0 }), isCounter)
+    expect(await counter.update(increment)).toBe(1)
+    writeFileSync(file, JSON.stringify({ count: 10 }))
+    expect(await counter.update(increment)).toBe(11)
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({ count: 11 })
+  })
+
+  test.each([
+    ['invalid contents', '{"bad":1}'],
+    ['broken JSON', '{"count":'],
+  ])('moves a file with %s aside instead of overwriting it', async (_, contents) => {
+    writeFileSync(file, contents)
+    const counter = createJsonFile(file, () => ({ count: 0 }), isCounter)
+
+    expect(await counter.read(data => data.count)).toBe(0)
+    expect(readdirSync(dir)).toEqual(['counter.json'])
+
+    expect(await counter.update(increment)).toBe(1)
+    const backup = readdirSync(dir).find(name => name.endsWith('.bak'))
+    expect(backup).toBeDefined()
+    expect(readFileSync(path.join(dir, backup!), 'utf8')).toBe(contents)
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(backup!))
+  })
+})
@@ -0,0 +1,34 @@
+import { loadPersonalBests, mergePersonalBests, recordPersonalBest } from '../personalBests'
+
+describe('Personal bests', () => {
+  afterEach(() => localStorage.clear())
+
+  test('keeps the fastest win per puzzle', () => {
+    expect(recordPersonalBest('daily-2026-04-01', 90000, 4).isBest).toBe(true)
+
+    const slower = recordPersonalBest('daily-2026-04-01', 120000, 3)
+    expect(slower.isBest).toBe(false)
+    expect(slower.best.timeMs).toBe(90000)
+
+    expect(recordPersonalBest('daily-2026-04-01', 90000, 4).isBest).toBe(true) // the same game reloaded
+    expect(recordPersonalBest('daily-2026-04-01', 60000, 5).isBest).toBe(true)
+    expect(loadPersonalBests()['daily-2026-04-01'].timeMs).toBe(60000)
+  })
+
+  test('ignores corrupt storage', () => {
+    localStorage.setItem('matrixle-personal-bests', '{not json')
+    expect(loadPersonalBests()).toEqual({})
+  })
+
+  test('merges by keeping the faster time', () => {
+    const best = (timeMs: number) => ({ timeMs, guessCount: 3, setAt: '2026-04-01T12:00:00.000Z' })
+    const { merged, improved } = mergePersonalBests(
+      { 'daily-2026-04-01': best(50000), 'daily-2026-04-02': best(80000) },
+      { 'daily-2026-04-01': best(70000), 'daily-2026-04-02': best(40000), 'practice-abc': best(10000) }
+    )
+
+    expect(improved).toEqual(['daily-2026-04-02', 'practice-abc'])
+    expect(merged['daily-2026-04-01'].timeMs).toBe(50000)
+    expect(merged['daily-2026-04-02'].timeMs).toBe(40000)
+  })
+})
@@ -0,0 +1,64 @@
+import {
+  createPracticeSeed,
+  normalizePracticeSeed,
+  getPracticePuzzle,
+  getPracticeSeed,
+} from '../practicePuzzle'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { validateMatrixMultiplication } from '../validation'
+
+describe('Practice Puzzle', () => {
+  describe('createPracticeSeed', () => {
+    test('creates short lowercase seeds', () => {
+      const seed = createPracticeSeed()
+      expect(seed).toMatch(/^[a-z2-9]{6}$/)
+    })
+  })
+
+  describe('normalizePracticeSeed', () => {
+    test('trims, lowercases and joins whitespace', () => {
+      expect(normalizePracticeSeed('  Team Standup ')).toBe('team-standup')
+    })
+
+    test('rejects empty seeds', () => {
+      expect(normalizePracticeSeed('')).toBeNull()
+      expect(normalizePracticeSeed('   ')).toBeNull()
+    })
+
+    test('caps seed length', () => {
+      expect(normalizePracticeSeed('x'.repeat(100))).toHaveLength(32)
+    })
+  })
+
+  describe('getPracticePuzzle', () => {
+    test('same seed gives the same puzzle', () => {
+      const a = getPracticePuzzle('abc123')
+      const b = getPracticePuzzle('abc123')
+      expect(b.matrix).toEqual(a.matrix)
+      expect(b.vector).toEqual(a.vector)
+      expect(b.result).toEqual(a.result)
+    })
+
+    test('produces a valid single-digit practice puzzle', () => {
+      const puzzle = getPracticePuzzle('xyz')
+      expect(puzzle.mode).toBe('practice')
+      expect(puzzle.id).toBe('practice-xyz')
+      expect(validateMatrixMultiplication(puzzle.matrix, puzzle.vector, puzzle.result)).toBe(true)
+      expect(puzzle.result.g).toBeLessThanOrEqual(9)
+      expect(puzzle.result.h).toBeLessThanOrEqual(9)
+    })
+
+    test('a date-shaped seed does not reproduce that daily puzzle', () => {
+      const practice = getPracticePuzzle('2026-04-01')
+      const daily = getDailyPuzzle('2026-04-01')
+      expect([practice.matrix, practice.vector]).not.toEqual([daily.matrix, daily.vector])
+    })
+  })
+
+  describe('getPracticeSeed', () => {
+    test('recovers the seed from a practice puzzle only', () => {
+      expect(getPracticeSeed(getPracticePuzzle('team-standup'))).toBe('team-standup')
+      expect(getPracticeSeed(getDailyPuzzle('2026-04-01'))).toBeNull()
+    })
+  })
+})
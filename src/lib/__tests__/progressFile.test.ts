@@ -0,0 +1,133 @@
+import { exportProgress, importProgress, preferSave, PROGRESS_FORMAT } from '../progressFile'
+import { DEFAULT_SETTINGS } from '../settings'
+import { getBackupKey, readSavedGame, type SavedGame } from '../saveFormat'
+import { loadJoinedGroups } from '../groupsClient'
+import { loadFriendResults, type FriendResult } from '../friendResults'
+
+describe('Progress file', () => {
+  const guess = {
+    matrix: { a: 1, b: 2, c: 3, d: 4 },
+    vector: { e: 1, f: 1 },
+    result: { g: 3, h: 7 },
+    feedback: new Array(8).fill('not-in-puzzle'),
+    timestamp: '2026-04-01T12:00:00.000Z',
+  }
+  const save = (status: SavedGame['status'], guessCount: number): SavedGame => ({
+    version: 5,
+    guesses: new Array(guessCount).fill(guess),
+    currentGuess: status === 'playing' ? guessCount : guessCount - 1,
+    status,
+    retried: false,
+    hardMode: false,
+    revision: guessCount,
+    timer: null,
+    maxGuesses: 6,
+  })
+  const file = (games: Record<string, unknown>, settings: unknown = DEFAULT_SETTINGS, extra: object = {}) =>
+    JSON.stringify({ format: PROGRESS_FORMAT, version: 1, exportedAt: '', settings, stats: {}, games, ...extra })
+  const friend = (name: string, guessCount: number): FriendResult => ({
+    name,
+    status: 'won',
+    guessCount,
+    retried: false,
+    maxGuesses: 6,
+    rows: [new Array(8).fill('correct')],
+    addedAt: '2026-04-01T12:00:00.000Z',
+  })
+
+  afterEach(() => localStorage.clear())
+
+  test('exports every readable daily save with stats and settings', () => {
+    localStorage.setItem('matrixle-2026-04-01', JSON.stringify(save('won', 3)))
+    localStorage.setItem('matrixle-2026-04-02', '{not json')
+    localStorage.setItem('matrixle-settings', '{}')
+
+    const exported = exportProgress(DEFAULT_SETTINGS, '2026-04-01')
+    expect(Object.keys(exported.games)).toEqual(['2026-04-01'])
+    expect(exported.stats.wins).toBe(1)
+    expect(exported.settings).toEqual(DEFAULT_SETTINGS)
+  })
+
+  test('exports joined groups and friends\' results', () => {
+    const group = { inviteCode: 'ABC123', name: 'Lunch', member: 'Ana' }
+    localStorage.setItem('matrixle-groups', JSON.stringify([group]))
+    localStorage.setItem('matrixle-friend-results', JSON.stringify({ '#12': [friend('Ben', 3)] }))
+
+    const exported = exportProgress(DEFAULT_SETTINGS, '2026-04-01')
+    expect(exported.groups).toEqual([group])
+    expect(exported.friendResults).toEqual({ '#12': [friend('Ben', 3)] })
+  })
+
+  test('merges groups and friends\' results, keeping this browser\'s on a clash', () => {
+    localStorage.setItem('matrixle-groups', JSON.stringify([{ inviteCode: 'ABC123', name: 'Lunch', member: 'Ana' }]))
+    localStorage.setItem('matrixle-friend-results', JSON.stringify({ '#12': [friend('Ben', 3)] }))
+
+    const summary = importProgress(file({}, DEFAULT_SETTINGS, {
+      groups: [
+        { inviteCode: 'ABC123', name: 'Lunch', member: 'Ana B' },
+        { inviteCode: 'XYZ789', name: 'Family', member: 'Ana' },
+        { inviteCode: 'bad' },
+      ],
+      friendResults: {
+        '#12': [friend('ben', 5), friend('Cy', 2)],
+        '#13': [friend('Dee', 4)],
+      },
+    }))
+
+    expect(summary.groups).toEqual(['XYZ789'])
+    expect(loadJoinedGroups().map(group => [group.inviteCode, group.member])).toEqual([['ABC123', 'Ana'], ['XYZ789', 'Ana']])
+    expect(summary.friendResults).toEqual(['#12', '#13'])
+    expect(loadFriendResults()).toEqual({
+      '#12': [friend('Cy', 2), friend('Ben', 3)],
+      '#13': [friend('Dee', 4)],
+    })
+  })
+
+  test('prefers finished games, then more guesses', () => {
+    expect(preferSave(save('playing', 5), save('won', 2))).toBe('incoming')
+    expect(preferSave(save('lost', 6), save('playing', 1))).toBe('local')
+    expect(preferSave(save('playing', 1), save('playing', 3))).toBe('incoming')
+    expect(preferSave(save('won', 3), save('won', 3))).toBe('local')
+  })
+
+  test('merges games per date and reports what changed', () => {
+    localStorage.setItem('matrixle-2026-04-01', JSON.stringify(save('playing', 2)))
+    localStorage.setItem('matrixle-2026-04-02', JSON.stringify(save('won', 4)))
+
+    const summary = importProgress(file({
+      '2026-04-01': save('won', 3),
+      '2026-04-02': save('playing', 5),
+      '2026-04-03': save('lost', 6),
+      '2026-04-04': { ...save('won', 1), status: 'paused' },
+      'settings': save('won', 1),
+    }, { ...DEFAULT_SETTINGS, showRemainingCount: true }))
+
+    expect(summary.added).toEqual(['2026-04-03'])
+    expect(summary.replaced).toEqual(['2026-04-01'])
+    expect(summary.kept).toEqual(['2026-04-02'])
+    expect(summary.rejected).toEqual([
+      { date: '2026-04-04', error: 'status is invalid' },
+      { date: 'settings', error: 'not a puzzle date' },
+    ])
+    expect(summary.settings.showRemainingCount).toBe(true)
+    expect(readSavedGame('2026-04-01')?.status).toBe('won')
+    expect(readSavedGame('2026-04-01')?.revision).toBe(4) // outranks both copies so open tabs adopt it
+    expect(readSavedGame('2026-04-02')?.status).toBe('won')
+    expect(localStorage.getItem('matrixle-2026-04-04')).toBeNull()
+  })
+
+  test('backs up an unreadable local save it replaces', () => {
+    localStorage.setItem('matrixle-2026-04-01', '{not json')
+
+    const summary = importProgress(file({ '2026-04-01': save('won', 3) }))
+    expect(summary.replaced).toEqual(['2026-04-01'])
+    expect(localStorage.getItem(getBackupKey('2026-04-01'))).toBe('{not json')
+  })
+
+  test('rejects files that are not progress exports', () => {
+    expect(() => importProgress('nope')).toThrow('not valid JSON')
+    expect(() => importProgress('{"games": {}}')).toThrow('not a Matrixle progress file')
+    expect(() => importProgress(JSON.stringify({ format: PROGRESS_FORMAT, version: 7, games: {} })))
+      .toThrow('Unsupported progress file version 7')
+  })
+})
@@ -0,0 +1,102 @@
+import { getScheduledPuzzle, findScheduleOccurrence, getPuzzleSalt } from '../puzzleSchedule'
+import { getPuzzlePool, valuesKey } from '../puzzlePool'
+import { DIFFICULTY_LEVELS, rateDifficulty } from '../difficulty'
+import { validateMatrixMultiplication } from '../validation'
+
+describe('Puzzle Schedule', () => {
+  describe('getPuzzlePool', () => {
+    test('lists every valid single-digit puzzle exactly once', () => {
+      const pool = getPuzzlePool()
+      expect(pool).toHaveLength(2208)
+
+      const keys = new Set(pool.map(p => JSON.stringify(p)))
+      expect(keys.size).toBe(pool.length)
+
+      pool.forEach(p => {
+        expect(validateMatrixMultiplication(p.matrix, p.vector, p.result)).toBe(true)
+        expect(p.result.g).toBeLessThanOrEqual(9)
+        expect(p.result.h).toBeLessThanOrEqual(9)
+      })
+    })
+  })
+
+  describe('getScheduledPuzzle', () => {
+    const levelSize = (difficulty: number) =>
+      getPuzzlePool().filter(p => rateDifficulty(p) === difficulty).length
+
+    test('serves puzzles of the requested difficulty', () => {
+      for (let difficulty = 1; difficulty <= DIFFICULTY_LEVELS; difficulty++) {
+        expect(rateDifficulty(getScheduledPuzzle(difficulty, 0))).toBe(difficulty)
+        expect(rateDifficulty(getScheduledPuzzle(difficulty, 123))).toBe(difficulty)
+      }
+    })
+
+    test('does not repeat until the level runs out', () => {
+      const n = levelSize(3)
+      const seen = new Set<string>()
+      for (let occurrence = 0; occurrence < n; occurrence++) {
+        seen.add(JSON.stringify(getScheduledPuzzle(3, occurrence)))
+      }
+      expect(seen.size).toBe(n)
+      expect(getScheduledPuzzle(3, n)).toEqual(getScheduledPuzzle(3, 0))
+    })
+
+    test('leaves retired puzzles out of the first pass only', () => {
+      const n = levelSize(3)
+      const retired = new Set([valuesKey(getScheduledPuzzle(3, 0)), valuesKey(getScheduledPuzzle(3, 5))])
+      const firstPass = Array.from({ length: n - 2 }, (_, i) => valuesKey(getScheduledPuzzle(3, i, retired)))
+      expect(new Set(firstPass).size).toBe(n - 2)
+      expect(firstPass.some(key => retired.has(key))).toBe(false)
+      expect(getScheduledPuzzle(3, n - 2, retired)).toEqual(getScheduledPuzzle(3, 0))
+
+      const puzzle = getScheduledPuzzle(3, 0)
+      expect(findScheduleOccurrence(puzzle, 0, retired)).toBe(n - 2)
+      expect(findScheduleOccurrence(getScheduledPuzzle(3, 7, retired), 0, retired)).toBe(7)
+      expect(findScheduleOccurrence(getScheduledPuzzle(3, 7, retired), 8, retired)).toBe(n - 2 + 9)
+    })
+
+    test('wraps negative occurrences', () => {
+      expect(getScheduledPuzzle(2, -1)).toEqual(getScheduledPuzzle(2, levelSize(2) - 1))
+    })
+  })
+
+  describe('findScheduleOccurrence', () => {
+    test('is the inverse of getScheduledPuzzle', () => {
+      for (const occurrence of [0, 1, 200, 400]) {
+        expect(findScheduleOccurrence(getScheduledPuzzle(4, occurrence))).toBe(occurrence)
+      }
+    })
+
+    test('finds the next occurrence on or after a given one', () => {
+      const n = getPuzzlePool().filter(p => rateDifficulty(p) === 1).length
+      const puzzle = getScheduledPuzzle(1, 10)
+      expect(findScheduleOccurrence(puzzle, 10)).toBe(10)
+      expect(findScheduleOccurrence(puzzle, 11)).toBe(10 + n)
+    })
+
+    test('returns null for puzzles outside the pool', () => {
+      expect(findScheduleOccurrence({
+        matrix: { a: 1, b: 0, c: 0, d: 1 },
+        vector: { e: 5, f: 3 },
+        result: { g: 5, h: 3 },
+      })).toBeNull()
+    })
+  })
+
+  describe('getPuzzleSalt', () => {
+    afterEach(() => {
+      delete process.env.MATRIXLE_PUZZLE_SALT
+    })
+
+    test('reshuffles the schedule with the server salt', () => {
+      const unsalted = Array.from({ length: 10 }, (_, i) => getScheduledPuzzle(3, i))
+      process.env.MATRIXLE_PUZZLE_SALT = 'secret'
+      const salted = Array.from({ length: 10 }, (_, i) => getScheduledPuzzle(3, i))
+
+      expect(getPuzzleSalt()).toBe('secret')
+      expect(salted).not.toEqual(unsalted)
+      salted.forEach(values => expect(rateDifficulty(values)).toBe(3))
+      expect(findScheduleOccurrence(salted[4])).toBe(4)
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { encodeReplayGuesses, getGuessDurations, getReplayPath, getSolveTime } from '../replay'
+import { decodeReplay } from '../replayDecoder'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { getPracticePuzzle } from '../practicePuzzle'
+import { replayGame, type GameEvent } from '../engine'
+import type { Puzzle, PuzzleValues } from '@/types/game'
+
+describe('Replays', () => {
+  const wrong: PuzzleValues = {
+    matrix: { a: 1, b: 2, c: 3, d: 4 },
+    vector: { e: 1, f: 1 },
+    result: { g: 3, h: 7 },
+  }
+  const play = (puzzle: Puzzle, seconds: number[], maxGuesses: number | null = 6) => {
+    const answer = { matrix: puzzle.matrix, vector: puzzle.vector, result: puzzle.result }
+    const events: GameEvent[] = seconds.map((at, i) => ({
+      type: 'GuessSubmitted',
+      guess: i === seconds.length - 1 ? answer : wrong,
+      timestamp: new Date(Date.UTC(2026, 3, 1, 12) + at * 1000),
+    }))
+    return replayGame(puzzle, [{ type: 'GuessLimitSet', maxGuesses }, ...events]).state.guesses
+  }
+
+  test('round-trips a daily game through a link', () => {
+    const puzzle = getDailyPuzzle('2026-04-01')
+    const guesses = play(puzzle, [0, 42, 130])
+
+    const path = getReplayPath(puzzle, guesses)
+    expect(path).toBe(`/replay?puzzle=4&g=${encodeReplayGuesses(guesses)}`)
+
+    const replay = decodeReplay({ puzzle: '4', g: encodeReplayGuesses(guesses) })
+    expect(replay?.puzzle).toEqual(puzzle)
+    expect(replay?.guesses.map(guess => guess.feedback)).toEqual(guesses.map(guess => guess.feedback))
+    expect(getGuessDurations(replay?.guesses ?? [])).toEqual([null, 42000, 88000])
+    expect(getSolveTime(replay?.guesses ?? [])).toBe(130000)
+  })
+
+  test('round-trips a practice game', () => {
+    const puzzle = getPracticePuzzle('abc')
+    const guesses = play(puzzle, [0, 5])
+
+    const replay = decodeReplay({ seed: 'abc', g: encodeReplayGuesses(guesses) })
+    expect(replay?.puzzle.id).toBe('practice-abc')
+    expect(replay?.guesses).toHaveLength(2)
+  })
+
+  test('carries a non-default guess limit', () => {
+    const puzzle = getDailyPuzzle('2026-04-01')
+    const guesses = play(puzzle, [0, 1, 2, 3, 4, 5, 6, 7], null)
+    const g = encodeReplayGuesses(guesses)
+
+    expect(getReplayPath(puzzle, guesses, null)).toBe(`/replay?puzzle=4&g=${g}&limit=none`)
+    expect(decodeReplay({ puzzle: '4', g, limit: 'none' })?.maxGuesses).toBeNull()
+    expect(decodeReplay({ puzzle: '4', g })).toBeNull() // 8 guesses don't fit the default limit
+    expect(decodeReplay({ puzzle: '4', g, limit: 'lots' })).toBeNull()
+  })
+
+  test('rejects malformed, unfinished and unpublished replays', () => {
+    const puzzle = getDailyPuzzle('2026-04-01')
+    const unfinished = encodeReplayGuesses(play(puzzle, [0, 10]).slice(0, 1))
+
+    expect(decodeReplay({ puzzle: '4' })).toBeNull()
+    expect(decodeReplay({ puzzle: '4', g: 'abc' })).toBeNull()
+    expect(decodeReplay({ puzzle: '4', g: unfinished })).toBeNull()
+    expect(decodeReplay({ puzzle: '99999', g: encodeReplayGuesses(play(puzzle, [0])) })).toBeNull()
+  })
+
+  test('accepts a puzzle once its day has started anywhere', () => {
+    const puzzle = getDailyPuzzle('2026-04-01')
+    const g = encodeReplayGuesses(play(puzzle, [0]))
+    // Already April 1st in UTC+14, still March 31st in UTC and westwards
+    expect(decodeReplay({ puzzle: '4', g }, new Date('2026-03-31T10:30:00Z'))?.puzzle).toEqual(puzzle)
+    expect(decodeReplay({ puzzle: '4', g }, new Date('2026-03-31T09:30:00Z'))).toBeNull()
+  })
+})
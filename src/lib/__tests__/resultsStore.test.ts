@@ -0,0 +1,29 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createJsonFileStore } from '../resultsStore'
+
+describe('JSON file results store', () => {
+  let dir: string
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'matrixle-results-'))
+  })
+  afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+  test('persists tallies and reporters across instances', async () => {
+    const file = path.join(dir, 'nested', 'results.json')
+    const store = createJsonFileStore(file)
+    await Promise.all([store.record(4, 'a', 3), store.record(4, 'b', 1), store.record(4, 'c', null), store.record(5, 'a', 2)])
+    expect(await store.record(4, 'a', 1)).toBe(false)
+
+    const reopened = createJsonFileStore(file)
+    expect(await reopened.getTally(4)).toEqual({ wins: [1, 0, 1], losses: 1 })
+    expect(await reopened.getTally(5)).toEqual({ wins: [0, 1], losses: 0 })
+    expect(await reopened.record(4, 'b', 2)).toBe(false)
+    expect(JSON.parse(readFileSync(file, 'utf8')).version).toBe(1)
+  })
+
+  test('starts empty without a file', async () => {
+    expect(await createJsonFileStore(path.join(dir, 'missing.json')).getTally(4)).toEqual({ wins: [], losses: 0 })
+  })
+})
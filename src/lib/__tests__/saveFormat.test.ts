@@ -0,0 +1,105 @@
+import {
+  SAVE_VERSION,
+  getBackupKey,
+  loadDailyGame,
+  parseSavedGame,
+  readSavedGame,
+  saveDailyGame,
+  toSavedGame,
+} from '../saveFormat'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { generateFeedback } from '../feedback'
+import type { GameState, Guess } from '@/types/game'
+
+describe('Save format', () => {
+  const puzzle = getDailyPuzzle('2026-04-01')
+
+  const makeGuess = (): Guess => {
+    const values = {
+      matrix: { a: 1, b: 2, c: 3, d: 4 },
+      vector: { e: 1, f: 1 },
+      result: { g: 3, h: 7 },
+    }
+    return { ...values, feedback: generateFeedback(values, puzzle), timestamp: new Date('2026-04-01T12:00:00Z') }
+  }
+
+  const state: GameState = {
+    puzzle,
+    guesses: [makeGuess()],
+    currentGuess: 1,
+    status: 'playing',
+    digitStats: {},
+    retried: false,
+    hardMode: true,
+    timer: { elapsedMs: 5000, runningSince: null },
+    maxGuesses: 8,
+  }
+
+  afterEach(() => localStorage.clear())
+
+  describe('parseSavedGame', () => {
+    test('round-trips the current format without storing the puzzle', () => {
+      const raw = JSON.stringify(toSavedGame(state, 4))
+      expect(raw).not.toContain('puzzle')
+
+      const parsed = parseSavedGame(raw)
+      expect(parsed).toEqual({ ok: true, save: toSavedGame(state, 4) })
+    })
+
+    test('migrates an unversioned v1 save', () => {
+      const legacy = JSON.stringify({ ...state, hardMode: undefined })
+      const parsed = parseSavedGame(legacy)
+
+      expect(parsed.ok).toBe(true)
+      if (!parsed.ok) return
+      expect(parsed.save.version).toBe(SAVE_VERSION)
+      expect(parsed.save.hardMode).toBe(false)
+      expect(parsed.save).not.toHaveProperty('puzzle')
+      expect(parsed.save).not.toHaveProperty('digitStats')
+      expect(parsed.save.guesses[0].timestamp).toBe('2026-04-01T12:00:00.000Z')
+      expect(parsed.save.revision).toBe(1)
+      expect(parsed.save.timer).toBeNull()
+      expect(parsed.save.maxGuesses).toBe(6)
+    })
+
+    test('rejects malformed saves with a reason', () => {
+      const bad = (save: object) => parseSavedGame(JSON.stringify({ ...toSavedGame(state, 4), ...save }))
+
+      expect(parseSavedGame('{not json')).toEqual({ ok: false, error: 'not valid JSON' })
+      expect(parseSavedGame('[]')).toEqual({ ok: false, error: 'not an object' })
+      expect(bad({ version: 99 }).ok).toBe(false)
+      expect(bad({ status: 'paused' })).toEqual({ ok: false, error: 'status is invalid' })
+      expect(bad({ guesses: [{ ...toSavedGame(state, 4).guesses[0], matrix: { a: 12 } }] }))
+        .toEqual({ ok: false, error: 'guess 1 has missing or invalid digits' })
+      expect(bad({ guesses: [{ ...toSavedGame(state, 4).guesses[0], feedback: ['correct'] }] }))
+        .toEqual({ ok: false, error: 'guess 1 has invalid feedback' })
+    })
+  })
+
+  describe('loadDailyGame', () => {
+    test('restores a saved game and recomputes digit stats', () => {
+      saveDailyGame(state, 4)
+      const { state: loaded, revision, error } = loadDailyGame(puzzle)
+
+      expect(error).toBeUndefined()
+      expect(revision).toBe(4)
+      expect(loaded?.puzzle).toBe(puzzle)
+      expect(loaded?.guesses[0].timestamp).toEqual(new Date('2026-04-01T12:00:00Z'))
+      expect(Object.keys(loaded?.digitStats ?? {}).length).toBeGreaterThan(0)
+      expect(loaded?.hardMode).toBe(true)
+    })
+
+    test('backs up an unreadable save instead of dropping it', () => {
+      localStorage.setItem('matrixle-2026-04-01', '{"guesses": "oops"}')
+      const loaded = loadDailyGame(puzzle)
+
+      expect(loaded).toEqual({ state: null, revision: 0, error: 'guesses is not a list' })
+      expect(localStorage.getItem(getBackupKey('2026-04-01'))).toBe('{"guesses": "oops"}')
+    })
+
+    test('reports no save without an error', () => {
+      expect(loadDailyGame(puzzle)).toEqual({ state: null, revision: 0 })
+      expect(readSavedGame('2026-04-01')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { formatPuzzleValues, getCuratedDifficulties, previewSchedule, validateCuratedEntries } from '../scheduleCheck'
+import type { CuratedEntry } from '../curatedPuzzles'
+import { getDailyPuzzleInfo, getGeneratedPuzzle } from '../dailyPuzzle'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { DIFFICULTY_LEVELS } from '../difficulty'
+
+// A puzzle with a zero, which the generator never serves
+const christmas: CuratedEntry = {
+  date: '2026-12-25',
+  note: 'Christmas',
+  matrix: { a: 1, b: 2, c: 0, d: 3 },
+  vector: { e: 2, f: 1 },
+  result: { g: 4, h: 3 },
+}
+
+jest.mock('../../data/curatedPuzzles.json', () => [{
+  date: '2026-12-25',
+  note: 'Christmas',
+  matrix: { a: 1, b: 2, c: 0, d: 3 },
+  vector: { e: 2, f: 1 },
+  result: { g: 4, h: 3 },
+}])
+// Before any of the dates below have started
+const now = new Date('2026-11-01T00:00:00Z')
+
+jest.mock('../../data/curatedDifficulties.json', () => ({ '2026-12-25': 5 }))
+
+describe('Curated schedule', () => {
+  test('daily puzzles take curated entries before the generator', () => {
+    const puzzle = getDailyPuzzle('2026-12-25')
+    expect(formatPuzzleValues(puzzle)).toBe('[1 2; 0 3] × [2; 1] = [4; 3]')
+    expect(puzzle.id).toBe('daily-2026-12-25')
+    expect(getDailyPuzzleInfo('2026-12-25').difficulty).toBe(DIFFICULTY_LEVELS)
+    expect(getDailyPuzzle('2026-12-26')).toMatchObject(getGeneratedPuzzle('2026-12-26'))
+  })
+
+  test('rates curated entries for the browser', () => {
+    expect(getCuratedDifficulties([christmas])).toEqual({ '2026-12-25': DIFFICULTY_LEVELS })
+  })
+
+  test('accepts a well-formed file', () => {
+    expect(validateCuratedEntries([christmas], { now })).toEqual([])
+    expect(validateCuratedEntries([], { now })).toEqual([])
+  })
+
+  test('rejects entries that break the rules', () => {
+    expect(validateCuratedEntries({}, { now })).toEqual(['The curated file must hold an array of entries'])
+    expect(validateCuratedEntries([
+      christmas,
+      { ...christmas, result: { g: 4, h: 4 } },
+      { ...christmas, date: '2026-12-26', matrix: { ...christmas.matrix, a: 10 } },
+      { ...christmas, date: '2026-02-30' },
+      { date: '2026-12-27' },
+    ], { now })).toEqual([
+      'Entry 2 (2026-12-25): another entry already has this date',
+      "Entry 2 (2026-12-25): [1 2; 0 3] × [2; 1] = [4; 4] doesn't multiply out",
+      'Entry 3 (2026-12-26): every value must be a digit 0–9',
+      'Entry 4: date must be a YYYY-MM-DD calendar date',
+      'Entry 5 (2026-12-27): needs matrix { a, b, c, d }, vector { e, f } and result { g, h }',
+    ])
+  })
+
+  test('rejects dates that have started somewhere unless allowed', () => {
+    // Christmas starts in UTC+14 at 10:00 UTC on Christmas Eve
+    const started = new Date('2026-12-24T10:00:00Z')
+    expect(validateCuratedEntries([christmas], { now: new Date('2026-12-24T09:59:00Z') })).toEqual([])
+    expect(validateCuratedEntries([christmas], { now: started })).toEqual([
+      'Entry 1 (2026-12-25): this date has already started somewhere',
+    ])
+    expect(validateCuratedEntries([christmas], { now: started, allowPublished: true })).toEqual([])
+  })
+
+  test('rejects puzzles served again within the recent window', () => {
+    const generated = getGeneratedPuzzle('2026-12-01')
+    expect(validateCuratedEntries([{ ...generated, date: '2026-12-20' }], { now })).toEqual([
+      'Entry 1 (2026-12-20): the same puzzle is served on 2026-12-01',
+    ])
+    expect(validateCuratedEntries([christmas, { ...christmas, date: '2027-01-10' }], { now })).toEqual([
+      'Entry 1 (2026-12-25): the same puzzle is served on 2027-01-10',
+      'Entry 2 (2027-01-10): the same puzzle is served on 2026-12-25',
+    ])
+  })
+
+  test('previews upcoming days with curated entries in place', () => {
+    const days = previewSchedule('2026-12-24', 3, [christmas])
+    expect(days.map(day => [day.date, day.curated, day.note])).toEqual([
+      ['2026-12-24', false, undefined],
+      ['2026-12-25', true, 'Christmas'],
+      ['2026-12-26', false, undefined],
+    ])
+    expect(days[1]).toMatchObject({ puzzleNumber: 272, difficulty: DIFFICULTY_LEVELS })
+    expect(days[0].values).toEqual(getGeneratedPuzzle('2026-12-24'))
+  })
+})
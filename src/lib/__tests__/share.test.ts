@@ -0,0 +1,105 @@
+import { formatShareText, getShareLabel, parseShareText } from '../share'
+import { getPuzzleNumber } from '../dailyPuzzle'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { getPracticePuzzle } from '../practicePuzzle'
+import type { Guess } from '@/types/game'
+
+describe('Share Text', () => {
+  const guess: Guess = {
+    matrix: { a: 2, b: 1, c: 1, d: 3 },
+    vector: { e: 3, f: 2 },
+    result: { g: 8, h: 9 },
+    feedback: ['correct', 'wrong-position', 'not-in-puzzle', 'correct', 'correct', 'not-in-puzzle', 'wrong-position', 'correct'],
+    timestamp: new Date(),
+  }
+
+  describe('formatShareText', () => {
+    test('lays out each guess as the matrix equation', () => {
+      expect(formatShareText([guess], 12, 1, 'won', false)).toBe(
+        'Matrixle #12 1/6\n\n🟩🟨 × 🟩 = 🟨\n⬛🟩   ⬛   🟩'
+      )
+    })
+
+    test('marks retries and losses', () => {
+      expect(formatShareText([guess], 12, 3, 'won', true)).toMatch(/^Matrixle #12 3\/6\*\n/)
+      expect(formatShareText([guess], 12, 6, 'lost', false)).toMatch(/^Matrixle #12 X\/6\n/)
+    })
+
+    test('uses string labels as-is', () => {
+      expect(formatShareText([guess], 'Practice abc123', 1, 'won', false)).toMatch(/^Matrixle Practice abc123 1\/6\n/)
+    })
+
+    test('appends the difficulty label', () => {
+      expect(formatShareText([guess], 12, 2, 'won', false, { difficulty: 4 })).toMatch(/^Matrixle #12 2\/6 · Hard\n/)
+    })
+
+    test('marks hard mode after the difficulty', () => {
+      expect(formatShareText([guess], 12, 2, 'won', false, { difficulty: 1, hardMode: true }))
+        .toMatch(/^Matrixle #12 2\/6 · Easy · Hard mode\n/)
+    })
+
+    test('shows the guess limit after the slash', () => {
+      expect(formatShareText([guess], 12, 2, 'won', false, { maxGuesses: 8 })).toMatch(/^Matrixle #12 2\/8\n/)
+      expect(formatShareText([guess], 12, 9, 'won', false, { maxGuesses: null })).toMatch(/^Matrixle #12 9\/∞\n/)
+      expect(formatShareText([guess], 12, 4, 'lost', false, { maxGuesses: 4 })).toMatch(/^Matrixle #12 X\/4\n/)
+    })
+
+    test('ends the headline with the solve time of a timed game', () => {
+      expect(formatShareText([guess], 12, 2, 'won', false, { difficulty: 1, timeMs: 83000 }))
+        .toMatch(/^Matrixle #12 2\/6 · Easy · ⏱ 1:23\n/)
+    })
+  })
+
+  describe('getShareLabel', () => {
+    test('uses the puzzle number for daily puzzles and the seed for practice', () => {
+      expect(getShareLabel(getDailyPuzzle('2026-04-01'))).toBe(getPuzzleNumber('2026-04-01'))
+      expect(getShareLabel(getPracticePuzzle('abc123'))).toBe('Practice abc123')
+    })
+  })
+
+  describe('parseShareText', () => {
+    const won: Guess = { ...guess, feedback: Array(8).fill('correct') }
+
+    function parse(text: string) {
+      const result = parseShareText(text)
+      if (!result.ok) throw new Error(result.error)
+      return result.share
+    }
+
+    test('reads back formatShareText output', () => {
+      const share = parse(formatShareText([guess, won], 12, 2, 'won', true, { hardMode: true, timeMs: 83000, maxGuesses: 8 }))
+      expect(share).toMatchObject({ label: 12, status: 'won', guessCount: 2, retried: true, maxGuesses: 8, timeMs: 83000 })
+      expect(share.flags).toEqual(['Hard mode', '⏱ 1:23'])
+      expect(share.rows).toEqual([guess.feedback, won.feedback])
+      expect(share.warnings).toEqual([])
+    })
+
+    test('reads losses, unlimited games and practice labels', () => {
+      expect(parse(formatShareText(Array(6).fill(guess), 12, 6, 'lost', false))).toMatchObject({ status: 'lost', guessCount: 6, maxGuesses: 6 })
+      expect(parse(formatShareText([won], 12, 1, 'won', false, { maxGuesses: null })).maxGuesses).toBeNull()
+      expect(parse(formatShareText([won], 'Practice abc123', 1, 'won', false)).label).toBe('Practice abc123')
+    })
+
+    test('tolerates surrounding chat text and collapsed spacing', () => {
+      const text = 'beat that!\r\nMatrixle #12 1/6\r\n\r\n🟩🟩×🟩=🟩\n🟩🟩 🟩 🟩\n\nsent from my phone'
+      expect(parse(text).rows).toEqual([won.feedback])
+    })
+
+    test('rejects blocks that do not fit the 8-tile layout', () => {
+      expect(parseShareText('hello')).toEqual({ ok: false, error: expect.stringContaining('headline') })
+      expect(parseShareText('Matrixle #12 1/6')).toMatchObject({ ok: false })
+      expect(parseShareText('Matrixle #12 1/6\n\n🟩🟩 × 🟩 = 🟩')).toMatchObject({ ok: false })
+      expect(parseShareText('Matrixle #12 1/6\n\n🟩🟩🟩 × 🟩 = 🟩\n🟩   🟩   🟩')).toMatchObject({ ok: false })
+      expect(parseShareText('Matrixle #12 1/6\n\n🟩🟩 = 🟩 × 🟩\n🟩🟩   🟩   🟩')).toMatchObject({ ok: false })
+    })
+
+    test('flags results that do not add up', () => {
+      expect(parse(formatShareText([guess, won], 12, 3, 'won', false)).warnings).toEqual(['The score says 3 guesses but there are 2'])
+      expect(parse(formatShareText([guess], 12, 1, 'won', false)).warnings).toEqual(['Marked as solved but no guess is all green'])
+      expect(parse(formatShareText([guess, won], 12, 6, 'lost', false)).warnings).toEqual([
+        'A loss should show all 6 guesses but there are 2',
+        'Marked as a loss but a guess is all green',
+      ])
+    })
+  })
+})
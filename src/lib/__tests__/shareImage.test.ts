@@ -0,0 +1,39 @@
+import { layoutShareImage, TILE_COLORS } from '../shareImage'
+import type { Guess } from '@/types/game'
+
+describe('Share image', () => {
+  const guess: Guess = {
+    matrix: { a: 2, b: 1, c: 1, d: 3 },
+    vector: { e: 3, f: 2 },
+    result: { g: 8, h: 9 },
+    feedback: ['correct', 'wrong-position', 'not-in-puzzle', 'correct', 'correct', 'not-in-puzzle', 'wrong-position', 'correct'],
+    timestamp: new Date(),
+  }
+
+  test('draws eight tiles per guess in equation order', () => {
+    const layout = layoutShareImage([guess, guess], 'Matrixle #12 2/6', null)
+    expect(layout.rects).toHaveLength(16)
+
+    // Top row a b e g, then bottom row c d f h
+    const first = layout.rects.slice(0, 8).map(rect => rect.color)
+    expect(first).toEqual(['correct', 'wrong-position', 'correct', 'wrong-position', 'not-in-puzzle', 'correct', 'not-in-puzzle', 'correct']
+      .map(color => TILE_COLORS[color as keyof typeof TILE_COLORS]))
+    expect(layout.rects[0].y).toBe(layout.rects[1].y)
+    expect(layout.rects[4].y).toBeGreaterThan(layout.rects[0].y)
+    expect(layout.rects[8].y).toBeGreaterThan(layout.rects[7].y)
+  })
+
+  test('never includes the digits', () => {
+    const layout = layoutShareImage([guess], 'Matrixle #12 1/6', 'Easy · Hard mode')
+    expect(layout.texts.map(text => text.text)).toEqual(['Matrixle #12 1/6', 'Easy · Hard mode', '×', '='])
+  })
+
+  test('keeps everything inside the image', () => {
+    const layout = layoutShareImage([guess, guess, guess], 'Matrixle #12 X/6', 'Fiendish')
+    layout.rects.forEach(rect => {
+      expect(rect.x).toBeGreaterThanOrEqual(0)
+      expect(rect.x + rect.width).toBeLessThanOrEqual(layout.width)
+      expect(rect.y + rect.height).toBeLessThanOrEqual(layout.height)
+    })
+  })
+})
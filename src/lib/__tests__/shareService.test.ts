@@ -0,0 +1,64 @@
+import { describeShareOutcome, downloadBlob, shareText } from '../shareService'
+
+function abortError(): Error {
+  const error = new Error('cancelled')
+  error.name = 'AbortError'
+  return error
+}
+
+function fakeNavigator(options: { share?: () => Promise<void>; canShare?: boolean; writeText?: () => Promise<void> }) {
+  return {
+    share: options.share ? jest.fn(options.share) : undefined,
+    canShare: options.canShare === undefined ? undefined : jest.fn(() => options.canShare as boolean),
+    clipboard: { writeText: jest.fn(options.writeText ?? (() => Promise.resolve())) },
+  } as unknown as Navigator
+}
+
+describe('Share service', () => {
+  test('uses the share sheet when there is one', async () => {
+    const nav = fakeNavigator({ share: () => Promise.resolve(), canShare: true })
+    expect(await shareText('hi', nav)).toBe('shared')
+    expect(nav.clipboard.writeText).not.toHaveBeenCalled()
+  })
+
+  test('reports a closed share sheet without copying', async () => {
+    const nav = fakeNavigator({ share: () => Promise.reject(abortError()) })
+    expect(await shareText('hi', nav)).toBe('cancelled')
+    expect(nav.clipboard.writeText).not.toHaveBeenCalled()
+  })
+
+  test('falls back to the clipboard when sharing is unsupported or fails', async () => {
+    expect(await shareText('hi', fakeNavigator({}))).toBe('copied')
+    expect(await shareText('hi', fakeNavigator({ share: () => Promise.resolve(), canShare: false }))).toBe('copied')
+    expect(await shareText('hi', fakeNavigator({ share: () => Promise.reject(new Error('not allowed')) }))).toBe('copied')
+  })
+
+  test('asks for a manual copy when the clipboard is denied', async () => {
+    const nav = fakeNavigator({ writeText: () => Promise.reject(new Error('denied')) })
+    expect(await shareText('hi', nav)).toBe('manual')
+  })
+
+  test('describes outcomes for the button label', () => {
+    expect(describeShareOutcome('copied')).toBe('Copied!')
+    expect(describeShareOutcome('manual')).toBe('Copy failed')
+    expect(describeShareOutcome('cancelled')).toBeNull()
+    expect(describeShareOutcome(null)).toBeNull()
+  })
+
+  test('keeps a download URL alive until the download has started', () => {
+    jest.useFakeTimers()
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined)
+    URL.createObjectURL = jest.fn(() => 'blob:file')
+    URL.revokeObjectURL = jest.fn()
+    try {
+      downloadBlob(new Blob(['{}']), 'progress.json')
+      expect(click).toHaveBeenCalled()
+      expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+      jest.runAllTimers()
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:file')
+    } finally {
+      click.mockRestore()
+      jest.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,96 @@
+import { getAllEquations, getPossibleAnswers, isConsistent, getRemainingSolutions } from '../solver'
+import { answer, makeGuess } from '../__fixtures__/guesses'
+import { validateMatrixMultiplication } from '../validation'
+import { getPuzzlePool } from '../puzzlePool'
+import { getDailyPuzzleInfo } from '../dailyPuzzle'
+import { getPracticePuzzle } from '../practicePuzzle'
+import type { PuzzleValues } from '@/types/game'
+
+jest.mock('../../data/curatedDifficulties.json', () => ({ '2026-12-25': 5 }))
+
+describe('Solver', () => {
+  describe('getAllEquations', () => {
+    test('lists every valid single-digit equation including zeros', () => {
+      const equations = getAllEquations()
+      expect(equations).toHaveLength(54225)
+      equations.forEach(eq => {
+        expect(validateMatrixMultiplication(eq.matrix, eq.vector, eq.result)).toBe(true)
+      })
+    })
+  })
+
+  describe('getPossibleAnswers', () => {
+    test('is the puzzle pool for generated puzzles', () => {
+      expect(getPossibleAnswers()).toBe(getPuzzlePool())
+      expect(getPossibleAnswers()).toHaveLength(2208)
+      expect(getPossibleAnswers(getDailyPuzzleInfo('2026-12-26'))).toBe(getPuzzlePool())
+      expect(getPossibleAnswers(getPracticePuzzle('abc'))).toBe(getPuzzlePool())
+    })
+
+    test('is every equation on curated dates, whose answers stay on the server', () => {
+      expect(getPossibleAnswers(getDailyPuzzleInfo('2026-12-25'))).toBe(getAllEquations())
+    })
+  })
+
+  describe('isConsistent', () => {
+    test('the answer is always consistent with its own feedback', () => {
+      const guess = makeGuess({
+        matrix: { a: 1, b: 1, c: 1, d: 1 },
+        vector: { e: 1, f: 1 },
+        result: { g: 2, h: 2 },
+      })
+      expect(isConsistent(answer, [guess])).toBe(true)
+    })
+
+    test('rejects candidates that would have produced different feedback', () => {
+      const guess = makeGuess(answer)
+      const other: PuzzleValues = {
+        matrix: { a: 1, b: 2, c: 3, d: 1 },
+        vector: { e: 2, f: 3 },
+        result: { g: 8, h: 9 },
+      }
+      expect(isConsistent(other, [guess])).toBe(false)
+    })
+  })
+
+  describe('getRemainingSolutions', () => {
+    test('returns every possible answer before the first guess', () => {
+      expect(getRemainingSolutions([])).toHaveLength(getPossibleAnswers().length)
+    })
+
+    test('narrows down and always keeps the answer', () => {
+      const first = makeGuess({
+        matrix: { a: 1, b: 1, c: 1, d: 1 },
+        vector: { e: 1, f: 1 },
+        result: { g: 2, h: 2 },
+      })
+      const second = makeGuess({
+        matrix: { a: 2, b: 1, c: 1, d: 2 },
+        vector: { e: 3, f: 1 },
+        result: { g: 7, h: 5 },
+      })
+
+      const afterOne = getRemainingSolutions([first])
+      const afterTwo = getRemainingSolutions([first, second])
+      expect(afterOne.length).toBeLessThan(getPossibleAnswers().length)
+      expect(afterTwo.length).toBeLessThanOrEqual(afterOne.length)
+      expect(afterTwo).toContainEqual(answer)
+      afterTwo.forEach(candidate => expect(isConsistent(candidate, [first, second])).toBe(true))
+    })
+
+    test('a winning guess leaves only the answer', () => {
+      expect(getRemainingSolutions([makeGuess(answer)])).toEqual([answer])
+    })
+
+    test('only counts equations that can be served', () => {
+      const guess = makeGuess({
+        matrix: { a: 1, b: 1, c: 1, d: 1 },
+        vector: { e: 1, f: 1 },
+        result: { g: 2, h: 2 },
+      })
+      const remaining = getRemainingSolutions([guess])
+      expect(remaining.length).toBeLessThan(getRemainingSolutions([guess], getAllEquations()).length)
+      expect(remaining.every(values => values.vector.e > 0 && values.vector.f > 0)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { readDailyResults, calculateStats, type DailyResult } from '../stats'
+
+describe('Statistics', () => {
+  const guess = {
+    matrix: { a: 1, b: 2, c: 3, d: 4 },
+    vector: { e: 1, f: 1 },
+    result: { g: 3, h: 7 },
+    feedback: new Array(8).fill('not-in-puzzle'),
+    timestamp: '2026-04-01T12:00:00.000Z',
+  }
+  const save = (status: string, guessCount: number, retried = false) => JSON.stringify({
+    version: 2,
+    guesses: new Array(guessCount).fill(guess),
+    currentGuess: guessCount,
+    status,
+    retried,
+    hardMode: false,
+  })
+
+  const result = (date: string, status: 'won' | 'lost', guessCount: number, retried = false): DailyResult =>
+    ({ date, status, guessCount, retried })
+
+  describe('readDailyResults', () => {
+    afterEach(() => localStorage.clear())
+
+    test('reads finished games from the per-day saves', () => {
+      localStorage.setItem('matrixle-2026-04-02', save('won', 3))
+      localStorage.setItem('matrixle-2026-04-01', save('lost', 6, true))
+
+      expect(readDailyResults()).toEqual([
+        result('2026-04-01', 'lost', 6, true),
+        result('2026-04-02', 'won', 3),
+      ])
+    })
+
+    test('skips in-progress games, corrupt saves and other keys', () => {
+      localStorage.setItem('matrixle-2026-04-01', save('playing', 1))
+      localStorage.setItem('matrixle-2026-04-02', '{not json')
+      localStorage.setItem('matrixle-settings', JSON.stringify({ status: 'won' }))
+
+      expect(readDailyResults()).toEqual([])
+    })
+  })
+
+  describe('calculateStats', () => {
+    test('counts wins, retry wins and losses separately', () => {
+      const stats = calculateStats([
+        result('2026-04-01', 'won', 2),
+        result('2026-04-02', 'won', 4),
+        result('2026-04-03', 'won', 5, true),
+        result('2026-04-04', 'lost', 6),
+      ], '2026-04-04')
+
+      expect(stats.played).toBe(4)
+      expect(stats.wins).toBe(2)
+      expect(stats.retryWins).toBe(1)
+      expect(stats.losses).toBe(1)
+      expect(stats.winPercentage).toBe(50)
+      expect(stats.distribution).toEqual([0, 1, 0, 1, 0, 0])
+    })
+
+    test('tracks current and max streaks over consecutive days', () => {
+      const stats = calculateStats([
+        result('2026-04-01', 'won', 3),
+        result('2026-04-02', 'won', 3),
+        result('2026-04-03', 'won', 3),
+        result('2026-04-05', 'won', 3),
+        result('2026-04-06', 'won', 3),
+      ], '2026-04-06')
+
+      expect(stats.maxStreak).toBe(3)
+      expect(stats.currentStreak).toBe(2)
+    })
+
+    test('an unfinished today keeps yesterday\'s streak alive', () => {
+      const stats = calculateStats([
+        result('2026-04-01', 'won', 3),
+        result('2026-04-02', 'won', 3),
+      ], '2026-04-03')
+
+      expect(stats.currentStreak).toBe(2)
+    })
+
+    test('missed days, losses and retry wins break the streak', () => {
+      expect(calculateStats([result('2026-04-01', 'won', 3)], '2026-04-03').currentStreak).toBe(0)
+      expect(calculateStats([
+        result('2026-04-01', 'won', 3),
+        result('2026-04-02', 'won', 3, true),
+      ], '2026-04-02').currentStreak).toBe(0)
+    })
+
+    test('handles no games', () => {
+      const stats = calculateStats([], '2026-04-01')
+      expect(stats.played).toBe(0)
+      expect(stats.winPercentage).toBe(0)
+      expect(stats.currentStreak).toBe(0)
+    })
+  })
+})
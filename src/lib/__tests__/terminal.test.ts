@@ -0,0 +1,107 @@
+import { execFile, execFileSync } from 'child_process'
+import { mkdtempSync, rmSync } from 'fs'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createCliSaveFile, isCliSaveFile, loadCliGame, parseGuessInput, renderDigits, renderGuess } from '../terminal'
+import { calculateDigitStats } from '../feedback'
+import { createGameState } from '../engine'
+import { getDailyPuzzle } from '../dailyAnswer'
+import { checkDailyGuess } from '../guessApi'
+import { valuesToDigits } from '../puzzlePool'
+import { getPracticePuzzle } from '../practicePuzzle'
+import { toSavedGame } from '../saveFormat'
+import type { FeedbackColor, Guess } from '@/types/game'
+
+describe('Terminal game', () => {
+  const values = { matrix: { a: 4, b: 3, c: 2, d: 1 }, vector: { e: 1, f: 1 }, result: { g: 7, h: 3 } }
+  const feedback: FeedbackColor[] = [
+    'correct', 'wrong-position', 'not-in-puzzle', 'correct', 'correct', 'wrong-position', 'not-in-puzzle', 'correct',
+  ]
+
+  test('reads the eight digits of a typed guess', () => {
+    expect(parseGuessInput('43 21 11 73')).toEqual({ ok: true, values })
+    expect(parseGuessInput('4,3,2,1 1 1 = 7 3')).toEqual({ ok: true, values })
+    expect(parseGuessInput('4321')).toEqual({ ok: false, error: 'Type eight digits, a b c d e f g h (got 4)' })
+    expect(parseGuessInput('43211173 9')).toMatchObject({ ok: false })
+  })
+
+  test('draws guesses in the board layout', () => {
+    expect(renderGuess(values, feedback, false)).toBe('[4](3) × [1] =  7 \n 2 [1]   (1)   [3]')
+    expect(renderGuess(values, null, false)).toBe(' 4  3  ×  1  =  7 \n 2  1     1     3 ')
+    expect(renderGuess(values, feedback, true)).toContain('\x1b[1;30;42m 4 \x1b[0m')
+    expect(renderGuess(values, feedback, true)).toContain('\x1b[1;30;43m 3 \x1b[0m')
+  })
+
+  test('marks digits by what the guesses have shown', () => {
+    const guess: Guess = { ...values, feedback, timestamp: new Date() }
+    // 1, 3 and 4 seen (more copies may hide), 2 and 7 ruled out by their grey tiles
+    expect(renderDigits(calculateDigitStats([guess]), false)).toBe(' 0 (1) · (3)(4) 5  6  ·  8  9 ')
+  })
+
+  test('keeps games in the browser save format', () => {
+    const file = createCliSaveFile()
+    expect(isCliSaveFile(JSON.parse(JSON.stringify(file)))).toBe(true)
+    expect(isCliSaveFile({ ...file, format: 'matrixle-progress' })).toBe(false)
+
+    const state = { ...createGameState(getPracticePuzzle('abc123')), hardMode: true }
+    file.games['2026-04-01'] = JSON.parse(JSON.stringify(toSavedGame(state, 3)))
+    file.games['2026-04-02'] = { version: 99 }
+    expect(loadCliGame(file, '2026-04-01').save).toMatchObject({ version: 5, revision: 3, hardMode: true })
+    expect(loadCliGame(file, '2026-04-03')).toEqual({ save: null, error: null })
+  })
+
+  test('moves an unreadable game aside before it can be overwritten', () => {
+    const file = createCliSaveFile()
+    file.games['2026-04-02'] = { version: 99 }
+    expect(loadCliGame(file, '2026-04-02')).toEqual({ save: null, error: expect.any(String) })
+    expect(file.games['2026-04-02']).toBeUndefined()
+    expect(file.backups).toEqual({ '2026-04-02': { version: 99 } })
+    expect(isCliSaveFile(JSON.parse(JSON.stringify(file)))).toBe(true)
+  })
+
+  describe('command', () => {
+    const bin = path.join(__dirname, '../../../bin/matrixle.js')
+
+    test('runs from outside the repo', () => {
+      const output = execFileSync(process.execPath, [bin, 'help'], { cwd: tmpdir(), encoding: 'utf8', timeout: 30_000 })
+      expect(output).toContain('matrixle play')
+    })
+
+    test('checks guesses with the server given by --server', async () => {
+      const date = '2026-04-01'
+      const checked: unknown[] = []
+      const server: Server = createServer((request, response) => {
+        let body = ''
+        request.on('data', chunk => { body += chunk })
+        request.on('end', () => {
+          checked.push(JSON.parse(body))
+          const result = checkDailyGuess(JSON.parse(body))
+          response.writeHead(result.ok ? 200 : result.status, { 'Content-Type': 'application/json' })
+          response.end(JSON.stringify(result.ok ? result.value : { error: result.error }))
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const dir = mkdtempSync(path.join(tmpdir(), 'matrixle-cli-'))
+      try {
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        const output = await new Promise<string>((resolve, reject) => {
+          const child = execFile(
+            process.execPath,
+            [bin, 'play', '--date', date, '--server', url],
+            { cwd: tmpdir(), env: { ...process.env, MATRIXLE_CLI_SAVE: path.join(dir, 'games.json') }, timeout: 30_000 },
+            (error, stdout) => (error ? reject(error) : resolve(stdout))
+          )
+          child.stdin?.end(`${valuesToDigits(getDailyPuzzle(date)).join('')}\n`)
+        })
+        expect(checked).toEqual([expect.objectContaining({ date, guessNumber: 1, maxGuesses: 6 })])
+        expect(output).toContain('Solved in 1 guess!')
+        expect(output).toContain('Matrixle #4')
+      } finally {
+        server.close()
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
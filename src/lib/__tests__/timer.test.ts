@@ -0,0 +1,26 @@
+import { formatDuration, getElapsedMs, parseDuration, pauseTimer } from '../timer'
+
+describe('Game timer', () => {
+  test('counts banked time plus the running stretch', () => {
+    expect(getElapsedMs({ elapsedMs: 5000, runningSince: 1000 }, 4000)).toBe(8000)
+    expect(getElapsedMs({ elapsedMs: 5000, runningSince: null }, 4000)).toBe(5000)
+  })
+
+  test('banks the running stretch when paused', () => {
+    expect(pauseTimer({ elapsedMs: 5000, runningSince: 1000 }, 4000)).toEqual({ elapsedMs: 8000, runningSince: null })
+  })
+
+  test('formats durations', () => {
+    expect(formatDuration(42000)).toBe('0:42')
+    expect(formatDuration(725000)).toBe('12:05')
+    expect(formatDuration(3729000)).toBe('1:02:09')
+  })
+
+  test('parses formatted durations back', () => {
+    expect(parseDuration('0:42')).toBe(42000)
+    expect(parseDuration('12:05')).toBe(725000)
+    expect(parseDuration('1:02:09')).toBe(3729000)
+    expect(parseDuration('1:2')).toBeNull()
+    expect(parseDuration('soon')).toBeNull()
+  })
+})
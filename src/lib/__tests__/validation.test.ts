@@ -2,8 +2,10 @@ import {
   validateMatrixMultiplication,
   isValidDigit,
   validateMatrixInputs,
-  validateCompleteGuess
+  validateCompleteGuess,
+  validateHardMode
 } from '../validation';
+import type { Guess } from '@/types/game';
 
 describe('Matrix Multiplication Validation', () => {
   describe('validateMatrixMultiplication', () => {
@@ -155,4 +157,70 @@ describe('Matrix Multiplication Validation', () => {
       expect(validation.errors).toContain('The math doesn\'t work out! Try again.');
     });
   });
-});
\ No newline at end of file
+
+  describe('validateHardMode', () => {
+    // Answer: [2 1; 1 3] × [3; 2] = [8; 9]
+    const previous: Guess[] = [{
+      matrix: { a: 2, b: 4, c: 5, d: 1 },
+      vector: { e: 6, f: 2 },
+      result: { g: 8, h: 4 },
+      feedback: ['correct', 'not-in-puzzle', 'not-in-puzzle', 'wrong-position', 'not-in-puzzle', 'correct', 'correct', 'not-in-puzzle'],
+      timestamp: new Date()
+    }];
+
+    test('accepts a guess that respects every hint', () => {
+      const validation = validateHardMode(
+        { a: 2, b: 1, c: 1, d: 3 }, { e: 3, f: 2 }, { g: 8, h: 9 }, previous
+      );
+      expect(validation.isValid).toBe(true);
+    });
+
+    test('requires green cells to keep their digit', () => {
+      const validation = validateHardMode(
+        { a: 1, b: 1, c: 1, d: 3 }, { e: 3, f: 2 }, { g: 8, h: 9 }, previous
+      );
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Position a must be 2 (green in guess 1)');
+    });
+
+    test('requires yellow digits to be reused', () => {
+      const validation = validateHardMode(
+        { a: 2, b: 3, c: 3, d: 3 }, { e: 3, f: 2 }, { g: 8, h: 9 }, previous
+      );
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Guess must contain 1');
+    });
+
+    test('rejects digits known to be absent', () => {
+      const validation = validateHardMode(
+        { a: 2, b: 1, c: 1, d: 6 }, { e: 3, f: 2 }, { g: 8, h: 9 }, previous
+      );
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('6 is not in the puzzle');
+    });
+
+    test('rejects more copies than the exact count allows', () => {
+      // Two green 2s and a gray 2 pin the count of 2 at exactly two
+      const capped: Guess[] = [{
+        matrix: { a: 2, b: 2, c: 1, d: 3 },
+        vector: { e: 3, f: 2 },
+        result: { g: 8, h: 9 },
+        feedback: ['correct', 'not-in-puzzle', 'correct', 'correct', 'correct', 'correct', 'correct', 'correct'],
+        timestamp: new Date()
+      }];
+      const validation = validateHardMode(
+        { a: 2, b: 2, c: 1, d: 3 }, { e: 3, f: 2 }, { g: 8, h: 9 }, capped
+      );
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('The puzzle has only 2 × 2');
+    });
+
+    test('is enforced by validateCompleteGuess when earlier guesses are passed', () => {
+      const matrix = { a: 1, b: 1, c: 1, d: 3 };
+      const vector = { e: 3, f: 2 };
+      const result = { g: 5, h: 9 };
+      expect(validateCompleteGuess(matrix, vector, result).isValid).toBe(true);
+      expect(validateCompleteGuess(matrix, vector, result, previous).isValid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import type { Guess, PuzzleValues } from '@/types/game'
+import { generateFeedback } from './feedback'
+import { getPossibleAnswers, getRemainingSolutions } from './solver'
+
+// Caps keep the simulation interactive: candidate guesses the solver weighs,
+// and candidate answers each guess is simulated against
+export const MAX_PROBES = 100
+const MAX_SAMPLED_ANSWERS = 500
+
+export interface GuessAnalysis {
+  candidatesBefore: number
+  candidatesAfter: number
+  solverPick: PuzzleValues // the remaining candidate that splits the rest best
+  solverPickSampled: boolean // only MAX_PROBES of the candidates were weighed, so the pick is approximate
+  expectedAfter: number    // candidates the player's guess leaves on average
+  solverExpectedAfter: number
+  skill: number // 0–100: how close the guess came to the solver's pick
+  luck: number  // 0–100: share of possible outcomes that would have left more candidates
+}
+
+/**
+ * Evenly spaced deterministic sample, so reruns give the same report
+ */
+function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items
+  const step = items.length / max
+  return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)])
+}
+
+function feedbackKey(guess: PuzzleValues, answer: PuzzleValues): string {
+  return generateFeedback(guess, answer).join(',')
+}
+
+/**
+ * How the guess splits the sampled answers: feedback pattern -> how many
+ * answers would produce it
+ */
+function partition(guess: PuzzleValues, answers: PuzzleValues[]): Map<string, number> {
+  const buckets = new Map<string, number>()
+  answers.forEach(answer => {
+    const key = feedbackKey(guess, answer)
+    buckets.set(key, (buckets.get(key) ?? 0) + 1)
+  })
+  return buckets
+}
+
+/**
+ * Candidates left on average after the guess, scaled from the sample up to
+ * the full candidate count
+ */
+function expectedRemaining(buckets: Map<string, number>, sampled: number, total: number): number {
+  let sumSquares = 0
+  buckets.forEach(size => { sumSquares += size * size })
+  return (sumSquares / sampled) * (total / sampled)
+}
+
+function analyzeGuess(guess: Guess, candidates: PuzzleValues[], remaining: PuzzleValues[]): GuessAnalysis {
+  const answers = sampleEvenly(candidates, MAX_SAMPLED_ANSWERS)
+  const expected = (values: PuzzleValues) =>
+    expectedRemaining(partition(values, answers), answers.length, candidates.length)
+
+  let solverPick = candidates[0]
+  let solverExpectedAfter = Infinity
+  let worstExpected = 0
+  const probes = sampleEvenly(candidates, MAX_PROBES)
+  probes.forEach(probe => {
+    const score = expected(probe)
+    if (score < solverExpectedAfter) {
+      solverPick = probe
+      solverExpectedAfter = score
+    }
+    worstExpected = Math.max(worstExpected, score)
+  })
+
+  const buckets = partition(guess, answers)
+  const expectedAfter = expectedRemaining(buckets, answers.length, candidates.length)
+  worstExpected = Math.max(worstExpected, expectedAfter)
+
+  // Skill on a log scale between the worst probe and the solver's pick
+  const span = Math.log(worstExpected) - Math.log(solverExpectedAfter)
+  const skill = expectedAfter <= solverExpectedAfter || span <= 0
+    ? 100
+    : Math.round((100 * (Math.log(worstExpected) - Math.log(expectedAfter))) / span)
+
+  // Luck: the percentile of the outcome the player actually got
+  const actualKey = guess.feedback.join(',')
+  const actualSize = buckets.get(actualKey) ?? 1
+  let larger = 0
+  let equal = 0
+  buckets.forEach((size, key) => {
+    if (size > actualSize) larger += size
+    else if (size === actualSize && key !== actualKey) equal += size
+  })
+  equal += actualSize
+  const luck = Math.round((100 * (larger + equal / 2)) / answers.length)
+
+  return {
+    candidatesBefore: candidates.length,
+    candidatesAfter: remaining.length,
+    solverPick,
+    solverPickSampled: probes.length < candidates.length,
+    expectedAfter,
+    solverExpectedAfter,
+    skill: Math.max(0, Math.min(100, skill)),
+    luck: Math.max(0, Math.min(100, luck)),
+  }
+}
+
+/**
+ * WordleBot-style breakdown of a finished game, one entry per guess
+ */
+export function analyzeGame(guesses: Guess[], answers: PuzzleValues[] = getPossibleAnswers()): GuessAnalysis[] {
+  const report: GuessAnalysis[] = []
+  let candidates = answers
+  guesses.forEach(guess => {
+    const remaining = getRemainingSolutions([guess], candidates)
+    report.push(analyzeGuess(guess, candidates, remaining))
+    candidates = remaining
+  })
+  return report
+}
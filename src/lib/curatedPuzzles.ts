@@ -0,0 +1,24 @@
+import type { PuzzleValues } from '@/types/game'
+import schedule from '@/data/curatedPuzzles.json'
+
+/**
+ * Hand-picked puzzles pinned to dates (holidays, launches, themed weeks) that
+ * getDailyPuzzle serves instead of the generated schedule. They live in
+ * src/data/curatedPuzzles.json and, unlike the salted schedule, can be read
+ * by anyone with the source, so add them close to their date. Only server code
+ * (dailyAnswer) reads them; the browser gets their ratings from
+ * src/data/curatedDifficulties.json, which `npm run schedule:check` checks
+ * alongside the file (see scheduleCheck).
+ */
+export interface CuratedEntry extends PuzzleValues {
+  date: string // YYYY-MM-DD
+  note?: string
+}
+
+export function getCuratedEntries(): CuratedEntry[] {
+  return schedule as CuratedEntry[]
+}
+
+export function getCuratedEntry(date: string, entries: CuratedEntry[] = getCuratedEntries()): CuratedEntry | null {
+  return entries.find(entry => entry.date === date) ?? null
+}
@@ -0,0 +1,15 @@
+import type { Puzzle } from '@/types/game'
+import { getCuratedEntry } from './curatedPuzzles'
+import { createPuzzle, getGeneratedPuzzle, getTodayString } from './dailyPuzzle'
+
+/**
+ * The daily puzzle with its answer: a curated entry when one is pinned to the
+ * date, otherwise the generator's. Server only: from the cutover on this
+ * depends on the server's puzzle salt, and it reads the curated file, which
+ * must stay out of the browser bundle. The browser uses getDailyPuzzleInfo
+ * and has its guesses checked by /api/guess.
+ */
+export function getDailyPuzzle(dateStr?: string): Puzzle {
+  const date = dateStr ?? getTodayString()
+  return createPuzzle(getCuratedEntry(date) ?? getGeneratedPuzzle(date), `daily-${date}`, date, 'daily')
+}
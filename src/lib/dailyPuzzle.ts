@@ -1,41 +1,155 @@
-import type { Puzzle } from '@/types/game'
+import type { Puzzle, PuzzleInfo, PuzzleMode, PuzzleValues } from '@/types/game'
+import { hashSeed, mulberry32 } from './random'
+import { findScheduleOccurrence, getPuzzleSalt, getScheduledPuzzle } from './puzzleSchedule'
+import { valuesKey } from './puzzlePool'
+import { getWeekdayDifficulty, rateDifficulty } from './difficulty'
+import { getRolloverTimeZone } from './settings'
+import curatedDifficulties from '@/data/curatedDifficulties.json'
 
 // Puzzle #1 launch date
-const EPOCH = '2026-03-29'
+export const EPOCH = '2026-03-29'
 
-function dateHash(dateStr: string): number {
-  let hash = 0
-  for (let i = 0; i < dateStr.length; i++) {
-    hash = (Math.imul(31, hash) + dateStr.charCodeAt(i)) | 0
-  }
-  return hash >>> 0
-}
+// First date served from the salted, non-repeating schedule: the first date
+// that hadn't started anywhere when it went in. Earlier dates keep the puzzle
+// they were published with.
+export const SCHEDULE_CUTOVER = '2026-10-21'
 
-function mulberry32(seed: number): () => number {
-  return function (): number {
-    seed |= 0
-    seed = (seed + 0x6d2b79f5) | 0
-    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
-  }
+// Pre-cutover dates where the legacy sampler gave up were filled from the
+// schedule counted from this date, as first written; kept so they don't change
+const LEGACY_FALLBACK_BASE = '2026-11-01'
+
+// Difficulty of every pre-cutover puzzle, one digit per day from EPOCH, so the
+// browser can show it without working out the answer
+const LEGACY_DIFFICULTIES =
+  '3435225313123153324314454311353422321254453142154144414124142213132441'
+  + '2543525435423245112422315425214232224351233244245152422445514455111544'
+  + '424114253313411544135411553412344251431555521325321514112122221333'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given time zone,
+ * or in the runtime's local zone when none is given
+ */
+export function formatDateInTimeZone(instant: Date, timeZone?: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant)
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+  return `${part('year')}-${part('month')}-${part('day')}`
 }
 
-export function getTodayString(): string {
-  return new Date().toISOString().split('T')[0]
+/**
+ * Today's puzzle date. The daily puzzle rolls over at local midnight in the
+ * configured rollover zone (the player's own zone by default), not at UTC midnight.
+ */
+export function getTodayString(timeZone: string | undefined = getRolloverTimeZone()): string {
+  return formatDateInTimeZone(new Date(), timeZone)
 }
 
 export function getPuzzleNumber(dateStr?: string): number {
   const date = dateStr ?? getTodayString()
   const epochMs = new Date(EPOCH).getTime()
   const targetMs = new Date(date).getTime()
-  return Math.floor((targetMs - epochMs) / (1000 * 60 * 60 * 24)) + 1
+  return Math.floor((targetMs - epochMs) / DAY_MS) + 1
 }
 
-export function getDailyPuzzle(dateStr?: string): Puzzle {
-  const date = dateStr ?? getTodayString()
-  const rand = mulberry32(dateHash(date))
+/**
+ * Inverse of getPuzzleNumber: the date string puzzle #n was published on
+ */
+export function getDateForPuzzleNumber(puzzleNumber: number): string {
+  const epochMs = new Date(EPOCH).getTime()
+  return new Date(epochMs + (puzzleNumber - 1) * DAY_MS).toISOString().split('T')[0]
+}
+
+/**
+ * Every published puzzle date from EPOCH up to and including today, oldest first
+ */
+export function getArchiveDates(): string[] {
+  const latest = getPuzzleNumber()
+  const dates: string[] = []
+  for (let n = 1; n <= latest; n++) {
+    dates.push(getDateForPuzzleNumber(n))
+  }
+  return dates
+}
+
+/**
+ * True when puzzle #n has already been published (no peeking at future puzzles)
+ */
+export function isPublishedPuzzleNumber(puzzleNumber: number): boolean {
+  return Number.isInteger(puzzleNumber) && puzzleNumber >= 1 && puzzleNumber <= getPuzzleNumber()
+}
+
+export function createPuzzle(values: PuzzleValues, id: string, date: string, mode: PuzzleMode): Puzzle {
+  return {
+    id,
+    date,
+    mode,
+    difficulty: rateDifficulty(values),
+    matrix: { ...values.matrix },
+    vector: { ...values.vector },
+    result: { ...values.result },
+  }
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+// Days since the schedule's first day
+function getScheduleSlot(date: string, base: string): number {
+  return getPuzzleNumber(date) - getPuzzleNumber(base)
+}
+
+// Offsets within each week of slots (0 = the base's weekday) that target a difficulty
+function getWeeklyOffsets(difficulty: number, base: string): number[] {
+  const start = getWeekday(base)
+  return [0, 1, 2, 3, 4, 5, 6].filter(o => getWeekdayDifficulty((start + o) % 7) === difficulty)
+}
 
+// Number of slots before `slot` that target the given difficulty
+function countOccurrencesBefore(slot: number, difficulty: number, base: string): number {
+  const offsets = getWeeklyOffsets(difficulty, base)
+  const week = Math.floor(slot / 7)
+  return week * offsets.length + offsets.filter(o => o < slot - week * 7).length
+}
+
+function getSlotForOccurrence(occurrence: number, difficulty: number, base: string): number {
+  const offsets = getWeeklyOffsets(difficulty, base)
+  return Math.floor(occurrence / offsets.length) * 7 + offsets[occurrence % offsets.length]
+}
+
+// The puzzle the schedule counted from `base` serves on a date
+function getScheduledDailyPuzzle(date: string, base: string, retired?: ReadonlySet<string>): PuzzleValues {
+  const difficulty = getWeekdayDifficulty(getWeekday(date))
+  return getScheduledPuzzle(difficulty, countOccurrencesBefore(getScheduleSlot(date, base), difficulty, base), retired)
+}
+
+let published: { salt: string; keys: Set<string> } | null = null
+
+// Every puzzle served before the cutover, which the schedule's first pass skips
+function getPublishedBeforeCutover(): ReadonlySet<string> {
+  const salt = getPuzzleSalt()
+  if (published?.salt === salt) return published.keys
+  const keys = new Set<string>()
+  for (let n = 1; n < getPuzzleNumber(SCHEDULE_CUTOVER); n++) {
+    keys.add(valuesKey(getGeneratedPuzzle(getDateForPuzzleNumber(n))))
+  }
+  published = { salt, keys }
+  return keys
+}
+
+/**
+ * Pre-cutover generator: rejection-samples digits until g and h are single
+ * digits. Kept only so past dates keep their puzzle; returns null when all
+ * attempts fail.
+ */
+function generateLegacyPuzzle(date: string): PuzzleValues | null {
+  const rand = mulberry32(hashSeed(date))
   for (let attempt = 0; attempt < 1000; attempt++) {
     const a = Math.floor(rand() * 9) + 1
     const b = Math.floor(rand() * 9) + 1
@@ -47,14 +161,78 @@ export function getDailyPuzzle(dateStr?: string): Puzzle {
     const h = c * e + d * f
     if (g <= 9 && h <= 9) {
       return {
-        id: `daily-${date}`,
-        date,
         matrix: { a, b, c, d },
         vector: { e, f },
         result: { g, h },
       }
     }
   }
+  return null
+}
+
+/**
+ * What the generator serves on a date, ignoring curated entries. Depends on
+ * the puzzle salt from the cutover on, like getDailyPuzzle (see dailyAnswer).
+ */
+export function getGeneratedPuzzle(date: string): PuzzleValues {
+  // Scheduled dates draw from the difficulty level their weekday targets.
+  // Pre-cutover dates where the legacy sampler gave up did too, with negative
+  // occurrences wrapping to the far end of the permutation.
+  if (date >= SCHEDULE_CUTOVER) return getScheduledDailyPuzzle(date, SCHEDULE_CUTOVER, getPublishedBeforeCutover())
+  return generateLegacyPuzzle(date) ?? getScheduledDailyPuzzle(date, LEGACY_FALLBACK_BASE)
+}
+
+// Rating of a published pre-cutover puzzle, or null for any other date
+function getLegacyDifficulty(date: string): number | null {
+  const digit = date < SCHEDULE_CUTOVER ? LEGACY_DIFFICULTIES[getPuzzleNumber(date) - 1] : undefined
+  return digit ? Number(digit) : null
+}
+
+// Rating of a curated puzzle, or null when nothing is pinned to the date. The
+// curated file itself stays on the server; `npm run schedule:check -- --write`
+// copies just the ratings into src/data/curatedDifficulties.json.
+function getCuratedDifficulty(date: string): number | null {
+  const difficulty = (curatedDifficulties as Record<string, number>)[date]
+  return typeof difficulty === 'number' ? difficulty : null
+}
+
+// True when a curated puzzle, which may use zeros, is pinned to the date
+export function isCuratedDate(date: string): boolean {
+  return getCuratedDifficulty(date) !== null
+}
+
+/**
+ * Everything about a daily puzzle except its answer, which the browser can
+ * work out on its own without computing the puzzle: curated and pre-cutover
+ * puzzles are rated from tables, and scheduled dates always get the
+ * difficulty their weekday targets.
+ */
+export function getDailyPuzzleInfo(dateStr?: string): PuzzleInfo {
+  const date = dateStr ?? getTodayString()
+  return {
+    id: `daily-${date}`,
+    date,
+    mode: 'daily',
+    difficulty: getCuratedDifficulty(date) ?? getLegacyDifficulty(date) ?? getWeekdayDifficulty(getWeekday(date)),
+  }
+}
 
-  throw new Error(`Could not generate valid puzzle for ${date}`)
+/**
+ * Next date on or after `fromDate` (default: the cutover) that the schedule
+ * serves the given puzzle, or null if it isn't a valid puzzle
+ */
+export function findScheduledDate(
+  values: PuzzleValues,
+  fromDate: string = SCHEDULE_CUTOVER
+): string | null {
+  const difficulty = rateDifficulty(values)
+  const fromSlot = Math.max(0, getScheduleSlot(fromDate, SCHEDULE_CUTOVER))
+  const occurrence = findScheduleOccurrence(
+    values,
+    countOccurrencesBefore(fromSlot, difficulty, SCHEDULE_CUTOVER),
+    getPublishedBeforeCutover()
+  )
+  if (occurrence === null) return null
+  const slot = getSlotForOccurrence(occurrence, difficulty, SCHEDULE_CUTOVER)
+  return getDateForPuzzleNumber(getPuzzleNumber(SCHEDULE_CUTOVER) + slot)
 }
@@ -0,0 +1,126 @@
+import type { Guess, PuzzleValues } from '@/types/game'
+import { calculateDigitStats } from './feedback'
+import { valuesToDigits } from './puzzlePool'
+import { getPossibleAnswers } from './solver'
+
+export const CELL_POSITIONS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'] as const
+export type CellPosition = typeof CELL_POSITIONS[number]
+
+// Digits still possible in each cell, indexed like the feedback array (a..h)
+export type CellCandidates = number[][]
+
+// Cell indices of the two equations: g = a·e + b·f and h = c·e + d·f
+const EQUATIONS: [number, number, number, number, number][] = [
+  [0, 1, 4, 5, 6],
+  [2, 3, 4, 5, 7],
+]
+
+// The digits each cell takes across the answers, before any guess
+function seedCells(answers: PuzzleValues[]): Set<number>[] {
+  const cells = CELL_POSITIONS.map(() => new Set<number>())
+  answers.forEach(values => valuesToDigits(values).forEach((digit, i) => cells[i].add(digit)))
+  return cells
+}
+
+/**
+ * Per-position facts from feedback: greens fix a cell, yellows and grays
+ * rule their digit out of that cell
+ */
+function applyPositionFacts(cells: Set<number>[], guesses: Guess[]): void {
+  guesses.forEach(guess => {
+    valuesToDigits(guess).forEach((digit, i) => {
+      if (guess.feedback[i] === 'correct') {
+        cells[i] = new Set([digit])
+      } else {
+        cells[i].delete(digit)
+      }
+    })
+  })
+}
+
+/**
+ * Per-digit counts from calculateDigitStats: at least `confirmed` cells hold
+ * the digit, and exactly that many once a gray has been seen
+ */
+function applyCountFacts(cells: Set<number>[], guesses: Guess[]): boolean {
+  let changed = false
+  const stats = calculateDigitStats(guesses)
+
+  Object.entries(stats).forEach(([key, { confirmed, exact }]) => {
+    const digit = Number(key)
+    const fixed = cells.filter(cell => cell.size === 1 && cell.has(digit)).length
+    const hosts = cells.filter(cell => cell.size > 1 && cell.has(digit))
+
+    // The digit's quota is already placed: it can't be anywhere else
+    if (exact && fixed >= confirmed) {
+      hosts.forEach(cell => {
+        cell.delete(digit)
+        changed = true
+      })
+    }
+
+    // Every remaining host is needed to reach the minimum count
+    if (hosts.length > 0 && fixed + hosts.length === confirmed) {
+      hosts.forEach(cell => {
+        cell.clear()
+        cell.add(digit)
+        changed = true
+      })
+    }
+  })
+
+  return changed
+}
+
+/**
+ * Keep a digit in a cell only if some choice of the other cells in the same
+ * equation makes the arithmetic work
+ */
+function applyArithmetic(cells: Set<number>[]): boolean {
+  let changed = false
+
+  EQUATIONS.forEach(([x, y, e, f, r]) => {
+    const supported = [x, y, e, f, r].map(() => new Set<number>())
+    cells[x].forEach(vx => cells[y].forEach(vy => cells[e].forEach(ve => cells[f].forEach(vf => {
+      const result = vx * ve + vy * vf
+      if (cells[r].has(result)) {
+        supported[0].add(vx)
+        supported[1].add(vy)
+        supported[2].add(ve)
+        supported[3].add(vf)
+        supported[4].add(result)
+      }
+    }))))
+
+    ;[x, y, e, f, r].forEach((cell, i) => {
+      if (supported[i].size < cells[cell].size) {
+        cells[cell] = supported[i]
+        changed = true
+      }
+    })
+  })
+
+  return changed
+}
+
+/**
+ * For each of the eight cells a–h, the digits still possible after combining
+ * every guess's feedback with the multiplication itself, starting from the
+ * digits the possible answers use there (see getPossibleAnswers). Sound but
+ * not complete: every digit ruled out is truly impossible, but a few
+ * survivors may be too.
+ */
+export function deduceCellCandidates(guesses: Guess[], answers: PuzzleValues[] = getPossibleAnswers()): CellCandidates {
+  const cells = seedCells(answers)
+  applyPositionFacts(cells, guesses)
+
+  // Propagate until neither rule removes anything more
+  let changed = true
+  for (let round = 0; changed && round < 20; round++) {
+    const countsChanged = applyCountFacts(cells, guesses)
+    const arithmeticChanged = applyArithmetic(cells)
+    changed = countsChanged || arithmeticChanged
+  }
+
+  return cells.map(cell => Array.from(cell).sort((p, q) => p - q))
+}
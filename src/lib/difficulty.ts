@@ -0,0 +1,69 @@
+import type { PuzzleValues } from '@/types/game'
+import { getPuzzlePool, valuesKey, valuesToDigits } from './puzzlePool'
+
+export const DIFFICULTY_LEVELS = 5
+
+const DIFFICULTY_LABELS = ['Easy', 'Moderate', 'Tricky', 'Hard', 'Fiendish']
+
+// Target difficulty by weekday (0 = Sunday): gentle start to the week, hardest on weekends
+const WEEKDAY_DIFFICULTY = [5, 1, 2, 3, 3, 4, 5]
+
+let ratings: Map<string, number> | null = null
+
+function multisetKey(values: PuzzleValues): string {
+  return valuesToDigits(values).sort().join('')
+}
+
+/**
+ * Raw difficulty of a puzzle relative to the rest of the pool:
+ * - repeated digits make the per-digit counts harder to pin down
+ * - every other valid equation built from the same eight digits is a
+ *   decoy that all-yellow feedback can't rule out
+ */
+export function scorePuzzle(values: PuzzleValues, siblings: number): number {
+  const repeats = 8 - new Set(valuesToDigits(values)).size
+  return repeats + Math.log2(1 + siblings)
+}
+
+function getRatings(): Map<string, number> {
+  if (ratings) return ratings
+
+  const pool = getPuzzlePool()
+  const multisetCounts = new Map<string, number>()
+  pool.forEach(values => {
+    const key = multisetKey(values)
+    multisetCounts.set(key, (multisetCounts.get(key) ?? 0) + 1)
+  })
+
+  // Rank by score (pool order breaks ties) and cut into equal-sized levels
+  const ranked = pool
+    .map((values, index) => ({
+      key: valuesKey(values),
+      index,
+      score: scorePuzzle(values, multisetCounts.get(multisetKey(values))! - 1),
+    }))
+    .sort((x, y) => x.score - y.score || x.index - y.index)
+
+  ratings = new Map(ranked.map(({ key }, rank) => [
+    key,
+    Math.floor((rank * DIFFICULTY_LEVELS) / ranked.length) + 1,
+  ]))
+  return ratings
+}
+
+/**
+ * Difficulty level 1 (easiest) to DIFFICULTY_LEVELS; each level holds an
+ * equal share of the puzzle pool
+ */
+export function rateDifficulty(values: PuzzleValues): number {
+  // Anything outside the pool (e.g. a hand-picked puzzle with zeros) rates hardest
+  return getRatings().get(valuesKey(values)) ?? DIFFICULTY_LEVELS
+}
+
+export function getDifficultyLabel(difficulty: number): string {
+  return DIFFICULTY_LABELS[difficulty - 1] ?? 'Unknown'
+}
+
+export function getWeekdayDifficulty(weekday: number): number {
+  return WEEKDAY_DIFFICULTY[weekday]
+}
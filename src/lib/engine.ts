@@ -0,0 +1,143 @@
+import type { FeedbackColor, GameState, Guess, Puzzle, PuzzleInfo, PuzzleValues } from '@/types/game'
+import { calculateDigitStats, generateFeedback } from './feedback'
+import { validateHardMode } from './validation'
+import { pauseTimer } from './timer'
+
+/**
+ * The rules of a single game, free of React and storage. Everything that
+ * changes a game is an event; `gameReducer` applies one and records it, so
+ * replaying the log from `createEngine` rebuilds the exact same game.
+ */
+export const DEFAULT_GUESS_LIMIT = 6
+export const GUESS_LIMIT_OPTIONS: (number | null)[] = [4, 6, 8, null] // null = unlimited
+
+export function formatGuessLimit(maxGuesses: number | null): string {
+  return maxGuesses === null ? '∞' : String(maxGuesses)
+}
+
+export function isValidGuessLimit(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 1)
+}
+
+// False for daily puzzles, whose answer stays on the server
+export function hasAnswer(puzzle: Puzzle | PuzzleInfo): puzzle is Puzzle {
+  return 'matrix' in puzzle
+}
+
+export type GameEvent =
+  // `feedback` comes from the server when the puzzle's answer isn't known here
+  | { type: 'GuessSubmitted'; guess: PuzzleValues; timestamp: Date; feedback?: FeedbackColor[] }
+  | { type: 'Retried' }
+  | { type: 'HardModeSet'; hardMode: boolean }
+  | { type: 'GuessLimitSet'; maxGuesses: number | null }
+  | { type: 'TimerStarted'; at: number } // epoch ms; starts the clock of a timed game
+  | { type: 'TimerPaused'; at: number }  // the page was hidden
+  | { type: 'TimerResumed'; at: number } // the page is visible again
+  | { type: 'Restored'; state: GameState } // replace the game wholesale, e.g. from a save
+
+export interface EngineState {
+  state: GameState
+  log: GameEvent[] // accepted events, oldest first; rejected ones are not recorded
+}
+
+export function createGameState(puzzle: Puzzle | PuzzleInfo): GameState {
+  return {
+    puzzle,
+    guesses: [],
+    currentGuess: 0,
+    status: 'playing',
+    digitStats: {},
+    retried: false,
+    hardMode: false,
+    timer: null,
+    maxGuesses: DEFAULT_GUESS_LIMIT,
+  }
+}
+
+export function createEngine(puzzle: Puzzle | PuzzleInfo): EngineState {
+  return { state: createGameState(puzzle), log: [] }
+}
+
+function submitGuess(
+  state: GameState,
+  values: PuzzleValues,
+  timestamp: Date,
+  remoteFeedback: FeedbackColor[] | undefined
+): GameState | null {
+  if (state.status !== 'playing') return null
+  if (state.hardMode && !validateHardMode(values.matrix, values.vector, values.result, state.guesses).isValid) {
+    return null
+  }
+  const feedback = hasAnswer(state.puzzle) ? generateFeedback(values, state.puzzle) : remoteFeedback
+  if (!feedback || feedback.length !== 8) return null
+
+  const guess: Guess = {
+    matrix: values.matrix,
+    vector: values.vector,
+    result: values.result,
+    feedback,
+    timestamp,
+  }
+  const guesses = [...state.guesses, guess]
+  const isWin = feedback.every(color => color === 'correct')
+  const isGameOver = state.maxGuesses !== null && guesses.length >= state.maxGuesses
+  // The clock stops the moment the game ends
+  const timer = state.timer && (isWin || isGameOver) ? pauseTimer(state.timer, timestamp.getTime()) : state.timer
+
+  return {
+    ...state,
+    guesses,
+    currentGuess: isWin || isGameOver ? state.currentGuess : state.currentGuess + 1,
+    status: isWin ? 'won' : isGameOver ? 'lost' : 'playing',
+    digitStats: calculateDigitStats(guesses),
+    timer,
+  }
+}
+
+/**
+ * The game after the event, or null when the rules reject it
+ */
+function applyEvent(state: GameState, event: GameEvent): GameState | null {
+  switch (event.type) {
+    case 'GuessSubmitted':
+      return submitGuess(state, event.guess, event.timestamp, event.feedback)
+    case 'Retried':
+      // One retry, and only after a loss
+      if (state.status !== 'lost' || state.retried) return null
+      return { ...createGameState(state.puzzle), retried: true, hardMode: state.hardMode, maxGuesses: state.maxGuesses }
+    case 'HardModeSet':
+      // Hard mode can only change before the first guess
+      if (state.guesses.length > 0 || state.status !== 'playing') return null
+      return { ...state, hardMode: event.hardMode }
+    case 'GuessLimitSet':
+      // Likewise the guess limit
+      if (state.guesses.length > 0 || state.status !== 'playing' || !isValidGuessLimit(event.maxGuesses)) return null
+      return { ...state, maxGuesses: event.maxGuesses }
+    case 'TimerStarted':
+      // Timing starts with the first keystroke of a fresh game
+      if (state.timer || state.guesses.length > 0 || state.status !== 'playing') return null
+      return { ...state, timer: { elapsedMs: 0, runningSince: event.at } }
+    case 'TimerPaused':
+      if (!state.timer || state.timer.runningSince === null) return null
+      return { ...state, timer: pauseTimer(state.timer, event.at) }
+    case 'TimerResumed':
+      if (!state.timer || state.timer.runningSince !== null || state.status !== 'playing') return null
+      return { ...state, timer: { ...state.timer, runningSince: event.at } }
+    case 'Restored':
+      return event.state
+  }
+}
+
+/**
+ * Apply one event. A rejected event returns the engine unchanged (the same
+ * object), so React skips the re-render.
+ */
+export function gameReducer(engine: EngineState, event: GameEvent): EngineState {
+  const state = applyEvent(engine.state, event)
+  if (!state) return engine
+  return { state, log: [...engine.log, event] }
+}
+
+export function replayGame(puzzle: Puzzle | PuzzleInfo, events: GameEvent[]): EngineState {
+  return events.reduce(gameReducer, createEngine(puzzle))
+}
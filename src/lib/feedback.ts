@@ -1,4 +1,4 @@
-import type { Matrix2x2, Vector2x1, Result2x1, FeedbackColor, Guess, Puzzle, DigitStat } from '@/types/game'
+import type { FeedbackColor, Guess, PuzzleValues, DigitStat } from '@/types/game'
 
 /**
  * Generate Wordle-style feedback for a guess against the target puzzle
@@ -6,8 +6,8 @@ import type { Matrix2x2, Vector2x1, Result2x1, FeedbackColor, Guess, Puzzle, Dig
  * Now includes feedback for all positions including results
  */
 export function generateFeedback(
-  guess: Guess,
-  target: Puzzle
+  guess: PuzzleValues,
+  target: PuzzleValues
 ): FeedbackColor[] {
   // Extract all 8 positions (including the results)
   const guessArray = [
@@ -107,7 +107,7 @@ export function calculateDigitStats(guesses: Guess[]): Record<string, DigitStat>
 /**
  * Check if the guess matches the target (all positions correct)
  */
-export function isWinningGuess(guess: Guess, target: Puzzle): boolean {
+export function isWinningGuess(guess: PuzzleValues, target: PuzzleValues): boolean {
   return (
     guess.matrix.a === target.matrix.a &&
     guess.matrix.b === target.matrix.b &&
@@ -0,0 +1,122 @@
+import type { FeedbackColor } from '@/types/game'
+import { formatShareTitle, type ParsedShare } from './share'
+
+const FRIEND_RESULTS_KEY = 'matrixle-friend-results'
+
+export interface FriendResult {
+  name: string
+  status: 'won' | 'lost'
+  guessCount: number
+  retried: boolean
+  maxGuesses: number | null
+  timeMs?: number
+  rows: FeedbackColor[][]
+  addedAt: string // ISO 8601
+}
+
+// The parts of a result that decide its place on the board
+export type RankedResult = Pick<FriendResult, 'status' | 'guessCount' | 'retried' | 'timeMs'>
+
+// Pasted results per puzzle, keyed by share title ('#12' or 'Practice abc123')
+export type FriendResults = Record<string, FriendResult[]>
+
+const FEEDBACK_COLORS: FeedbackColor[] = ['correct', 'wrong-position', 'not-in-puzzle']
+
+function isFriendResult(value: unknown): value is FriendResult {
+  const result = value as Partial<FriendResult> | null
+  return typeof result === 'object' && result !== null
+    && typeof result.name === 'string'
+    && (result.status === 'won' || result.status === 'lost')
+    && typeof result.guessCount === 'number'
+    && typeof result.retried === 'boolean'
+    && (result.maxGuesses === null || typeof result.maxGuesses === 'number')
+    && (result.timeMs === undefined || typeof result.timeMs === 'number')
+    && Array.isArray(result.rows)
+    && result.rows.every(row => Array.isArray(row) && row.length === 8 && row.every(color => FEEDBACK_COLORS.includes(color)))
+    && typeof result.addedAt === 'string'
+}
+
+export function getFriendResultsKey(label: number | string): string {
+  return formatShareTitle(label)
+}
+
+export function parseFriendResults(value: unknown): FriendResults {
+  const results: FriendResults = {}
+  if (typeof value !== 'object' || value === null) return results
+  Object.entries(value).forEach(([key, list]) => {
+    if (Array.isArray(list)) results[key] = list.filter(isFriendResult)
+  })
+  return results
+}
+
+export function loadFriendResults(storage: Storage = localStorage): FriendResults {
+  try {
+    return parseFriendResults(JSON.parse(storage.getItem(FRIEND_RESULTS_KEY) ?? '{}'))
+  } catch {
+    return {}
+  }
+}
+
+export function saveFriendResults(results: FriendResults, storage: Storage = localStorage): void {
+  storage.setItem(FRIEND_RESULTS_KEY, JSON.stringify(results))
+}
+
+/**
+ * Best first: wins before losses, clean wins before retries, then fewer
+ * guesses, then faster times (untimed results last)
+ */
+export function compareResults(a: RankedResult, b: RankedResult): number {
+  if (a.status !== b.status) return a.status === 'won' ? -1 : 1
+  if (a.retried !== b.retried) return a.retried ? 1 : -1
+  if (a.status === 'won' && a.guessCount !== b.guessCount) return a.guessCount - b.guessCount
+  if (a.timeMs === b.timeMs) return 0
+  return (a.timeMs ?? Infinity) - (b.timeMs ?? Infinity)
+}
+
+/**
+ * Combine two sets of boards, e.g. from an imported progress file. A name on
+ * both keeps the local result. `added` lists the boards that gained results.
+ */
+export function mergeFriendResults(local: FriendResults, incoming: FriendResults): { merged: FriendResults; added: string[] } {
+  const merged = { ...local }
+  const added: string[] = []
+  Object.entries(incoming).forEach(([key, board]) => {
+    const names = new Set((merged[key] ?? []).map(result => result.name.toLowerCase()))
+    const extra = board.filter(result => !names.has(result.name.toLowerCase()))
+    if (extra.length === 0) return
+    merged[key] = [...(merged[key] ?? []), ...extra].sort(compareResults)
+    added.push(key)
+  })
+  return { merged, added }
+}
+
+/**
+ * Add a friend's result to the board for its puzzle, replacing any earlier
+ * one under the same name. Returns that puzzle's board, best first.
+ */
+export function addFriendResult(name: string, share: ParsedShare, storage: Storage = localStorage): FriendResult[] {
+  const key = getFriendResultsKey(share.label)
+  const results = loadFriendResults(storage)
+  const entry: FriendResult = {
+    name: name.trim(),
+    status: share.status,
+    guessCount: share.guessCount,
+    retried: share.retried,
+    maxGuesses: share.maxGuesses,
+    timeMs: share.timeMs,
+    rows: share.rows,
+    addedAt: new Date().toISOString(),
+  }
+  const others = (results[key] ?? []).filter(result => result.name.toLowerCase() !== entry.name.toLowerCase())
+  const board = [...others, entry].sort(compareResults)
+  saveFriendResults({ ...results, [key]: board }, storage)
+  return board
+}
+
+export function removeFriendResult(label: number | string, name: string, storage: Storage = localStorage): FriendResult[] {
+  const key = getFriendResultsKey(label)
+  const results = loadFriendResults(storage)
+  const board = (results[key] ?? []).filter(result => result.name !== name)
+  saveFriendResults({ ...results, [key]: board }, storage)
+  return board
+}
@@ -0,0 +1,83 @@
+import { createHash } from 'crypto'
+import { isPlayablePuzzleNumber, type ApiResult } from './guessApi'
+import { DEFAULT_GUESS_LIMIT } from './engine'
+import type { ReplayParams } from './replay'
+import { decodeReplay } from './replayDecoder'
+import type { PuzzleTally, ResultsStore } from './resultsStore'
+
+/**
+ * Anonymous global results. A finished daily game reports its guesses in the
+ * replay link encoding, so the server can replay them through the engine and
+ * count only games the rules allow. Each browser sends a random client id,
+ * stored only as a hash mixed with the puzzle number: enough to count a
+ * browser once per puzzle, but not to link its results across puzzles.
+ */
+export interface ResultReport {
+  clientId: string
+  puzzle: string // puzzle number, as in ReplayParams
+  g: string
+  limit?: string
+}
+
+export interface GlobalDistribution extends PuzzleTally {
+  puzzle: number
+  players: number
+}
+
+const CLIENT_ID = /^[A-Za-z0-9-]{8,64}$/
+
+export function getReporterKey(clientId: string, puzzleNumber: number): string {
+  return createHash('sha256').update(`${puzzleNumber}:${clientId}`).digest('hex')
+}
+
+/**
+ * The puzzle and score a report claims, once its guesses check out
+ */
+export function parseResultReport(body: unknown, now: Date = new Date()): ApiResult<{ puzzle: number; clientId: string; guessCount: number | null }> {
+  const report = body as Partial<ResultReport> | null
+  if (typeof report !== 'object' || report === null) return { ok: false, status: 400, error: 'Body is not an object' }
+  if (typeof report.clientId !== 'string' || !CLIENT_ID.test(report.clientId)) {
+    return { ok: false, status: 400, error: 'clientId is invalid' }
+  }
+  if (typeof report.puzzle !== 'string' || typeof report.g !== 'string' || (report.limit !== undefined && typeof report.limit !== 'string')) {
+    return { ok: false, status: 400, error: 'puzzle, g and limit must be strings' }
+  }
+
+  const params: ReplayParams = { puzzle: report.puzzle, g: report.g, limit: report.limit }
+  const replay = decodeReplay(params, now)
+  if (!replay) return { ok: false, status: 400, error: 'Not a finished game of a published puzzle' }
+  if (replay.maxGuesses !== DEFAULT_GUESS_LIMIT) {
+    return { ok: false, status: 400, error: `Only games with the default ${DEFAULT_GUESS_LIMIT}-guess limit are counted` }
+  }
+
+  const last = replay.guesses[replay.guesses.length - 1]
+  const won = last.feedback.every(color => color === 'correct')
+  return {
+    ok: true,
+    value: { puzzle: Number(report.puzzle), clientId: report.clientId, guessCount: won ? replay.guesses.length : null },
+  }
+}
+
+export async function reportResult(
+  body: unknown,
+  store: ResultsStore,
+  now: Date = new Date()
+): Promise<ApiResult<{ counted: boolean }>> {
+  const parsed = parseResultReport(body, now)
+  if (!parsed.ok) return parsed
+  const { puzzle, clientId, guessCount } = parsed.value
+  const counted = await store.record(puzzle, getReporterKey(clientId, puzzle), guessCount)
+  return { ok: true, value: { counted } }
+}
+
+export async function getGlobalDistribution(
+  puzzleNumber: number,
+  store: ResultsStore,
+  now: Date = new Date()
+): Promise<ApiResult<GlobalDistribution>> {
+  // Out once its day has started anywhere, like /api/guess; the server's own date may be behind the player's
+  if (!isPlayablePuzzleNumber(puzzleNumber, now)) return { ok: false, status: 404, error: 'No such puzzle' }
+  const tally = await store.getTally(puzzleNumber)
+  const players = tally.wins.reduce((sum, count) => sum + count, 0) + tally.losses
+  return { ok: true, value: { puzzle: puzzleNumber, ...tally, players } }
+}
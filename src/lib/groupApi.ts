@@ -0,0 +1,89 @@
+import { isPlayablePuzzleNumber, type ApiResult } from './guessApi'
+import { DEFAULT_GUESS_LIMIT } from './engine'
+import { isSameName, normalizeInviteCode, normalizeName, type Group } from './groups'
+import type { GroupRepository } from './groupRepository'
+import { parseShareText } from './share'
+
+/**
+ * Request handling behind the /api/groups routes, kept apart from Next so it
+ * can be tested against any repository
+ */
+export interface GroupMembership {
+  group: Group
+  member: string // the name as the group spells it
+}
+
+const MAX_GROUP_NAME_LENGTH = 40
+
+function field(body: unknown, key: string): unknown {
+  return typeof body === 'object' && body !== null ? (body as Record<string, unknown>)[key] : undefined
+}
+
+function findMember(group: Group, name: string): string | undefined {
+  return group.members.find(member => isSameName(member, name))
+}
+
+export async function createGroup(body: unknown, repository: GroupRepository): Promise<ApiResult<GroupMembership>> {
+  const rawName = field(body, 'name')
+  const name = typeof rawName === 'string' ? rawName.trim().replace(/\s+/g, ' ') : ''
+  if (name.length === 0 || name.length > MAX_GROUP_NAME_LENGTH) return { ok: false, status: 400, error: 'name is invalid' }
+  const member = normalizeName(field(body, 'member'))
+  if (!member) return { ok: false, status: 400, error: 'member is invalid' }
+  const group = await repository.create(name, member)
+  return { ok: true, value: { group, member } }
+}
+
+export async function joinGroup(inviteCode: string, body: unknown, repository: GroupRepository): Promise<ApiResult<GroupMembership>> {
+  const member = normalizeName(field(body, 'member'))
+  if (!member) return { ok: false, status: 400, error: 'member is invalid' }
+  const group = await repository.addMember(normalizeInviteCode(inviteCode), member)
+  if (!group) return { ok: false, status: 404, error: 'No group has that invite code' }
+  return { ok: true, value: { group, member: findMember(group, member) ?? member } }
+}
+
+export async function getGroup(inviteCode: string, repository: GroupRepository): Promise<ApiResult<Group>> {
+  const group = await repository.get(normalizeInviteCode(inviteCode))
+  return group ? { ok: true, value: group } : { ok: false, status: 404, error: 'No group has that invite code' }
+}
+
+/**
+ * Add a member's result from its share text. Only daily puzzles that are out
+ * count, and text that doesn't add up is turned away rather than guessed at.
+ */
+export async function submitGroupResult(
+  inviteCode: string,
+  body: unknown,
+  repository: GroupRepository,
+  now: Date = new Date()
+): Promise<ApiResult<Group>> {
+  const code = normalizeInviteCode(inviteCode)
+  const group = await repository.get(code)
+  if (!group) return { ok: false, status: 404, error: 'No group has that invite code' }
+
+  const name = normalizeName(field(body, 'member'))
+  const member = name ? findMember(group, name) : undefined
+  if (!member) return { ok: false, status: 400, error: 'Not a member of this group' }
+
+  const shareText = field(body, 'shareText')
+  if (typeof shareText !== 'string') return { ok: false, status: 400, error: 'shareText is missing' }
+  const parsed = parseShareText(shareText)
+  if (!parsed.ok) return { ok: false, status: 400, error: parsed.error }
+  const { share } = parsed
+  if (typeof share.label !== 'number') return { ok: false, status: 400, error: "Practice results can't be submitted" }
+  if (!isPlayablePuzzleNumber(share.label, now)) return { ok: false, status: 400, error: `Puzzle #${share.label} isn't out yet` }
+  if (share.warnings.length > 0) return { ok: false, status: 400, error: share.warnings[0] }
+  if (share.maxGuesses !== DEFAULT_GUESS_LIMIT) {
+    return { ok: false, status: 400, error: `Only games with the default ${DEFAULT_GUESS_LIMIT}-guess limit can be submitted` }
+  }
+
+  const updated = await repository.addResult(code, {
+    member,
+    puzzle: share.label,
+    status: share.status,
+    guessCount: share.guessCount,
+    retried: share.retried,
+    timeMs: share.timeMs,
+    submittedAt: now.toISOString(),
+  })
+  return updated ? { ok: true, value: updated } : { ok: false, status: 404, error: 'No group has that invite code' }
+}
@@ -0,0 +1,114 @@
+import { randomInt } from 'crypto'
+import type { Group, GroupResult } from './groups'
+import { isSameName } from './groups'
+import { createJsonFile } from './jsonFile'
+
+/**
+ * Where friend groups live. Lookups go by invite code, which is the only way
+ * into a group. Every method returns the group as it stands afterwards, or
+ * null when no group has that code.
+ */
+export interface GroupRepository {
+  create(name: string, member: string): Promise<Group>
+  get(inviteCode: string): Promise<Group | null>
+  addMember(inviteCode: string, member: string): Promise<Group | null>
+  // Replaces the member's earlier result for the same puzzle
+  addResult(inviteCode: string, result: GroupResult): Promise<Group | null>
+}
+
+interface StoredGroups {
+  version: 1
+  groups: Record<string, Group> // by invite code
+}
+
+// No 0/O or 1/I/L, so codes survive being read out loud
+const INVITE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
+const INVITE_LENGTH = 8
+const DEFAULT_GROUPS_FILE = '.data/groups.json'
+
+function createInviteCode(taken: (code: string) => boolean): string {
+  let code: string
+  do {
+    code = Array.from({ length: INVITE_LENGTH }, () => INVITE_ALPHABET[randomInt(INVITE_ALPHABET.length)]).join('')
+  } while (taken(code))
+  return code
+}
+
+function emptyGroups(): StoredGroups {
+  return { version: 1, groups: {} }
+}
+
+function createGroup(data: StoredGroups, name: string, member: string): Group {
+  const inviteCode = createInviteCode(code => code in data.groups)
+  const group: Group = { name, inviteCode, createdAt: new Date().toISOString(), members: [member], results: [] }
+  data.groups[inviteCode] = group
+  return group
+}
+
+function addMember(group: Group, member: string): boolean {
+  if (group.members.some(existing => isSameName(existing, member))) return false
+  group.members.push(member)
+  return true
+}
+
+function addResult(group: Group, result: GroupResult): void {
+  group.results = [
+    ...group.results.filter(existing => existing.member !== result.member || existing.puzzle !== result.puzzle),
+    result,
+  ]
+}
+
+// Copies out, so callers can't change stored groups behind the repository's back
+function copyGroup(group: Group | undefined): Group | null {
+  return group ? JSON.parse(JSON.stringify(group)) : null
+}
+
+export function createMemoryGroupRepository(): GroupRepository {
+  const data = emptyGroups()
+  return {
+    create: async (name, member) => copyGroup(createGroup(data, name, member))!,
+    get: async inviteCode => copyGroup(data.groups[inviteCode]),
+    addMember: async (inviteCode, member) => {
+      const group = data.groups[inviteCode]
+      if (group) addMember(group, member)
+      return copyGroup(group)
+    },
+    addResult: async (inviteCode, result) => {
+      const group = data.groups[inviteCode]
+      if (group) addResult(group, result)
+      return copyGroup(group)
+    },
+  }
+}
+
+function isStoredGroups(value: unknown): value is StoredGroups {
+  const groups = value as Partial<StoredGroups> | null
+  return typeof groups === 'object' && groups !== null && groups.version === 1
+    && typeof groups.groups === 'object' && groups.groups !== null
+}
+
+// Groups kept in one JSON file, for running without a database
+export function createJsonFileGroupRepository(filePath: string): GroupRepository {
+  const file = createJsonFile(filePath, emptyGroups, isStoredGroups)
+  return {
+    create: (name, member) => file.update(data => ({ changed: true, result: copyGroup(createGroup(data, name, member))! })),
+    get: inviteCode => file.read(data => copyGroup(data.groups[inviteCode])),
+    addMember: (inviteCode, member) => file.update(data => {
+      const group = data.groups[inviteCode]
+      return { changed: group ? addMember(group, member) : false, result: copyGroup(group) }
+    }),
+    addResult: (inviteCode, result) => file.update(data => {
+      const group = data.groups[inviteCode]
+      if (group) addResult(group, result)
+      return { changed: Boolean(group), result: copyGroup(group) }
+    }),
+  }
+}
+
+let repository: GroupRepository | null = null
+
+// The server's repository: the JSON file named by MATRIXLE_GROUPS_FILE
+export function getGroupRepository(): GroupRepository {
+  if (!repository) repository = createJsonFileGroupRepository(process.env.MATRIXLE_GROUPS_FILE ?? DEFAULT_GROUPS_FILE)
+  return repository
+}
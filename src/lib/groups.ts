@@ -0,0 +1,123 @@
+import { getDateForPuzzleNumber } from './dailyPuzzle'
+import { compareResults } from './friendResults'
+import { calculateStats, type DailyResult } from './stats'
+
+/**
+ * Private friend groups: members join with an invite code and submit each
+ * day's result as its share text, so a group's board is built from the same
+ * data formatShareText puts out. Stored on the server (see groupRepository);
+ * the standings are worked out here so any page can show them.
+ */
+export interface GroupResult {
+  member: string
+  puzzle: number
+  status: 'won' | 'lost'
+  guessCount: number
+  retried: boolean
+  timeMs?: number
+  submittedAt: string // ISO 8601
+}
+
+export interface Group {
+  name: string
+  inviteCode: string
+  createdAt: string // ISO 8601
+  members: string[]
+  results: GroupResult[] // at most one per member and puzzle
+}
+
+export interface MemberStanding {
+  member: string
+  played: number
+  currentStreak: number
+  maxStreak: number
+  averageGuesses: number | null // over clean wins; null before the first
+  dailyWins: number
+}
+
+export type StandingOrder = 'streak' | 'average' | 'dailyWins'
+
+export const MAX_NAME_LENGTH = 30
+
+// Trimmed name, or null when empty or too long
+export function normalizeName(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const name = value.trim().replace(/\s+/g, ' ')
+  return name.length >= 1 && name.length <= MAX_NAME_LENGTH ? name : null
+}
+
+// Codes are shown upper case and in one piece; accept them typed any way
+export function normalizeInviteCode(value: string): string {
+  return value.trim().toUpperCase().replace(/[^0-9A-Z]/g, '')
+}
+
+export function isSameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * Each puzzle's best result in the group, newest puzzle first. Ties share the
+ * win; a puzzle nobody solved has no winner.
+ */
+export function getDailyWinners(group: Group): { puzzle: number; winners: string[] }[] {
+  const byPuzzle = new Map<number, GroupResult[]>()
+  group.results.forEach(result => byPuzzle.set(result.puzzle, [...(byPuzzle.get(result.puzzle) ?? []), result]))
+
+  return Array.from(byPuzzle.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([puzzle, results]) => {
+      const best = [...results].sort(compareResults)[0]
+      const winners = best.status === 'won'
+        ? results.filter(result => compareResults(result, best) === 0).map(result => result.member)
+        : []
+      return { puzzle, winners }
+    })
+}
+
+export function getGroupStandings(group: Group, today: string): MemberStanding[] {
+  const dailyWins = new Map<string, number>()
+  getDailyWinners(group).forEach(({ winners }) => {
+    winners.forEach(member => dailyWins.set(member, (dailyWins.get(member) ?? 0) + 1))
+  })
+
+  return group.members.map(member => {
+    const results: DailyResult[] = group.results
+      .filter(result => result.member === member)
+      .map(result => ({
+        date: getDateForPuzzleNumber(result.puzzle),
+        status: result.status,
+        guessCount: result.guessCount,
+        retried: result.retried,
+      }))
+      .sort((x, y) => x.date.localeCompare(y.date))
+    const stats = calculateStats(results, today)
+    const guessTotal = stats.distribution.reduce((sum, count, i) => sum + count * (i + 1), 0)
+    return {
+      member,
+      played: stats.played,
+      currentStreak: stats.currentStreak,
+      maxStreak: stats.maxStreak,
+      averageGuesses: stats.wins > 0 ? guessTotal / stats.wins : null,
+      dailyWins: dailyWins.get(member) ?? 0,
+    }
+  })
+}
+
+// Best first by the chosen column, falling back to the others
+export function sortStandings(standings: MemberStanding[], order: StandingOrder): MemberStanding[] {
+  const byStreak = (a: MemberStanding, b: MemberStanding) => b.currentStreak - a.currentStreak || b.maxStreak - a.maxStreak
+  const byAverage = (a: MemberStanding, b: MemberStanding) => (a.averageGuesses ?? Infinity) - (b.averageGuesses ?? Infinity) || 0
+  const byDailyWins = (a: MemberStanding, b: MemberStanding) => b.dailyWins - a.dailyWins
+  const comparers = {
+    streak: [byStreak, byAverage, byDailyWins],
+    average: [byAverage, byStreak, byDailyWins],
+    dailyWins: [byDailyWins, byStreak, byAverage],
+  }[order]
+  return [...standings].sort((a, b) => {
+    for (const compare of comparers) {
+      const result = compare(a, b)
+      if (result !== 0) return result
+    }
+    return a.member.localeCompare(b.member)
+  })
+}
@@ -0,0 +1,102 @@
+import type { GroupMembership } from './groupApi'
+import type { Group } from './groups'
+import { readError } from './guessClient'
+
+/**
+ * Browser side of /api/groups (see groupApi), plus the list of groups this
+ * browser has joined and the name it uses in each
+ */
+const GROUPS_KEY = 'matrixle-groups'
+
+export interface JoinedGroup {
+  inviteCode: string
+  name: string
+  member: string
+}
+
+function isJoinedGroup(value: unknown): value is JoinedGroup {
+  const group = value as Partial<JoinedGroup> | null
+  return typeof group === 'object' && group !== null
+    && typeof group.inviteCode === 'string'
+    && typeof group.name === 'string'
+    && typeof group.member === 'string'
+}
+
+export function parseJoinedGroups(value: unknown): JoinedGroup[] {
+  return Array.isArray(value) ? value.filter(isJoinedGroup) : []
+}
+
+export function loadJoinedGroups(storage: Storage = localStorage): JoinedGroup[] {
+  try {
+    return parseJoinedGroups(JSON.parse(storage.getItem(GROUPS_KEY) ?? '[]'))
+  } catch {
+    return []
+  }
+}
+
+export function saveJoinedGroups(groups: JoinedGroup[], storage: Storage = localStorage): void {
+  storage.setItem(GROUPS_KEY, JSON.stringify(groups))
+}
+
+// Remember a group, replacing any earlier entry for the same code
+export function saveJoinedGroup(membership: GroupMembership, storage: Storage = localStorage): JoinedGroup[] {
+  const entry: JoinedGroup = { inviteCode: membership.group.inviteCode, name: membership.group.name, member: membership.member }
+  const groups = [...loadJoinedGroups(storage).filter(group => group.inviteCode !== entry.inviteCode), entry]
+  saveJoinedGroups(groups, storage)
+  return groups
+}
+
+export function forgetJoinedGroup(inviteCode: string, storage: Storage = localStorage): JoinedGroup[] {
+  const groups = loadJoinedGroups(storage).filter(group => group.inviteCode !== inviteCode)
+  saveJoinedGroups(groups, storage)
+  return groups
+}
+
+/**
+ * Combine two lists of joined groups, e.g. from an imported progress file.
+ * A group on both keeps the local entry. `added` lists the new invite codes.
+ */
+export function mergeJoinedGroups(local: JoinedGroup[], incoming: JoinedGroup[]): { merged: JoinedGroup[]; added: string[] } {
+  const codes = new Set(local.map(group => group.inviteCode))
+  const extra = incoming.filter(group => !codes.has(group.inviteCode))
+  return { merged: [...local, ...extra], added: extra.map(group => group.inviteCode) }
+}
+
+async function send<T>(url: string, body: unknown, fetchImpl: typeof fetch): Promise<T> {
+  let response: Response
+  try {
+    response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  } catch {
+    throw new Error("Couldn't reach the server")
+  }
+  if (!response.ok) throw new Error(await readError(response))
+  return await response.json() as T
+}
+
+// The calls below throw with a message for the player when they fail
+export function createGroup(name: string, member: string, fetchImpl: typeof fetch = fetch): Promise<GroupMembership> {
+  return send('/api/groups', { name, member }, fetchImpl)
+}
+
+export function joinGroup(inviteCode: string, member: string, fetchImpl: typeof fetch = fetch): Promise<GroupMembership> {
+  return send(`/api/groups/${encodeURIComponent(inviteCode)}/members`, { member }, fetchImpl)
+}
+
+export function submitGroupResult(inviteCode: string, member: string, shareText: string, fetchImpl: typeof fetch = fetch): Promise<Group> {
+  return send(`/api/groups/${encodeURIComponent(inviteCode)}/results`, { member, shareText }, fetchImpl)
+}
+
+export async function fetchGroup(inviteCode: string, fetchImpl: typeof fetch = fetch): Promise<Group> {
+  let response: Response
+  try {
+    response = await fetchImpl(`/api/groups/${encodeURIComponent(inviteCode)}`)
+  } catch {
+    throw new Error("Couldn't reach the server")
+  }
+  if (!response.ok) throw new Error(await readError(response))
+  return await response.json() as Group
+}
@@ -0,0 +1,119 @@
+import type { FeedbackColor, GameStatus, PuzzleValues } from '@/types/game'
+import { EPOCH, formatDateInTimeZone, getDateForPuzzleNumber, getPuzzleNumber } from './dailyPuzzle'
+import { getDailyPuzzle } from './dailyAnswer'
+import { generateFeedback } from './feedback'
+import { isValidGuessLimit } from './engine'
+import { validateCompleteGuess } from './validation'
+
+/**
+ * Server side of daily play. The browser only knows a daily puzzle's id and
+ * number; it posts each guess to /api/guess and gets back the feedback, so the
+ * answer (and the salted schedule behind it) never leaves the server.
+ *
+ * The daily puzzle rolls over at each player's local midnight, so a date is
+ * playable once it has started anywhere (UTC+14), and its answer is only
+ * given out once it has ended everywhere (UTC-12).
+ */
+export interface GuessRequest {
+  date: string
+  guess: PuzzleValues
+  guessNumber: number // 1 for the first guess of the game
+  maxGuesses: number | null
+}
+
+export interface GuessResponse {
+  feedback: FeedbackColor[]
+  status: GameStatus // 'playing' while guesses remain
+}
+
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; status: 400 | 404; error: string }
+
+const FIRST_TIME_ZONE = 'Etc/GMT-14' // the first place a new day starts
+const LAST_TIME_ZONE = 'Etc/GMT+12'  // the last place it ends
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string'
+    && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    && value >= EPOCH
+    && getDateForPuzzleNumber(getPuzzleNumber(value)) === value
+}
+
+export function isPlayableDate(date: string, now: Date = new Date()): boolean {
+  return isDateString(date) && date <= formatDateInTimeZone(now, FIRST_TIME_ZONE)
+}
+
+/**
+ * isPlayableDate for a puzzle number: whether the server should treat puzzle
+ * #n as out, whatever the server's own zone
+ */
+export function isPlayablePuzzleNumber(puzzleNumber: number, now: Date = new Date()): boolean {
+  return Number.isInteger(puzzleNumber) && puzzleNumber >= 1
+    && puzzleNumber <= getPuzzleNumber(formatDateInTimeZone(now, FIRST_TIME_ZONE))
+}
+
+export function isAnswerRevealed(date: string, now: Date = new Date()): boolean {
+  return isDateString(date) && date < formatDateInTimeZone(now, LAST_TIME_ZONE)
+}
+
+// Shape only: eight numbers in the right places
+function isPuzzleValues(value: unknown): value is PuzzleValues {
+  const values = value as Partial<PuzzleValues> | null
+  if (typeof values !== 'object' || values === null) return false
+  const { matrix, vector, result } = values
+  return typeof matrix === 'object' && matrix !== null
+    && typeof vector === 'object' && vector !== null
+    && typeof result === 'object' && result !== null
+    && [matrix.a, matrix.b, matrix.c, matrix.d, vector.e, vector.f, result.g, result.h].every(n => typeof n === 'number')
+}
+
+export function parseGuessRequest(body: unknown): ApiResult<GuessRequest> {
+  const request = body as Partial<GuessRequest> | null
+  if (typeof request !== 'object' || request === null) return { ok: false, status: 400, error: 'Body is not an object' }
+  if (!isDateString(request.date)) return { ok: false, status: 400, error: 'date is invalid' }
+  if (!isPuzzleValues(request.guess)) return { ok: false, status: 400, error: 'guess is invalid' }
+  const { matrix, vector, result } = request.guess
+  if (!validateCompleteGuess(matrix, vector, result).isValid) {
+    return { ok: false, status: 400, error: 'guess is not a valid equation' }
+  }
+  if (typeof request.guessNumber !== 'number' || !Number.isInteger(request.guessNumber) || request.guessNumber < 1) {
+    return { ok: false, status: 400, error: 'guessNumber is invalid' }
+  }
+  if (!isValidGuessLimit(request.maxGuesses)) return { ok: false, status: 400, error: 'maxGuesses is invalid' }
+  return {
+    ok: true,
+    value: {
+      date: request.date,
+      guess: {
+        matrix: { a: matrix.a, b: matrix.b, c: matrix.c, d: matrix.d },
+        vector: { e: vector.e, f: vector.f },
+        result: { g: result.g, h: result.h },
+      },
+      guessNumber: request.guessNumber,
+      maxGuesses: request.maxGuesses,
+    },
+  }
+}
+
+/**
+ * Feedback for one guess at a daily puzzle, from an untrusted request body
+ */
+export function checkDailyGuess(body: unknown, now: Date = new Date()): ApiResult<GuessResponse> {
+  const parsed = parseGuessRequest(body)
+  if (!parsed.ok) return parsed
+  const { date, guess, guessNumber, maxGuesses } = parsed.value
+  if (!isPlayableDate(date, now)) return { ok: false, status: 404, error: 'No puzzle for that date yet' }
+
+  const feedback = generateFeedback(guess, getDailyPuzzle(date))
+  const won = feedback.every(color => color === 'correct')
+  const lost = !won && maxGuesses !== null && guessNumber >= maxGuesses
+  return { ok: true, value: { feedback, status: won ? 'won' : lost ? 'lost' : 'playing' } }
+}
+
+/**
+ * The answer to a daily puzzle that has ended everywhere
+ */
+export function getRevealedAnswer(date: string, now: Date = new Date()): ApiResult<PuzzleValues> {
+  if (!isAnswerRevealed(date, now)) return { ok: false, status: 404, error: 'That answer is not revealed yet' }
+  const { matrix, vector, result } = getDailyPuzzle(date)
+  return { ok: true, value: { matrix, vector, result } }
+}
@@ -0,0 +1,48 @@
+import type { FeedbackColor, PuzzleValues } from '@/types/game'
+import type { GuessRequest, GuessResponse } from './guessApi'
+
+/**
+ * Browser side of /api/guess and /api/answer (see guessApi)
+ */
+export async function readError(response: Response): Promise<string> {
+  try {
+    const body = await response.json()
+    if (typeof body?.error === 'string') return body.error
+  } catch {
+    // not JSON
+  }
+  return `The server answered ${response.status}`
+}
+
+/**
+ * Feedback for a daily guess. Throws with a message for the player when the
+ * server can't be reached or rejects the guess.
+ */
+export async function requestFeedback(request: GuessRequest, fetchImpl: typeof fetch = fetch): Promise<FeedbackColor[]> {
+  let response: Response
+  try {
+    response = await fetchImpl('/api/guess', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+  } catch {
+    throw new Error("Couldn't reach the server to check your guess")
+  }
+  if (!response.ok) throw new Error(await readError(response))
+  const body = await response.json() as GuessResponse
+  return body.feedback
+}
+
+/**
+ * The answer to a past daily puzzle, or null while it's still being played
+ * somewhere (or the server can't be reached)
+ */
+export async function requestAnswer(date: string, fetchImpl: typeof fetch = fetch): Promise<PuzzleValues | null> {
+  try {
+    const response = await fetchImpl(`/api/answer?date=${encodeURIComponent(date)}`)
+    return response.ok ? await response.json() as PuzzleValues : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * A JSON document in a file, for the server's file-backed stores and the CLI
+ * save. The file is read afresh for every operation, so edits made by hand
+ * between requests are kept; writes go through a temporary file and a rename
+ * so a crash can't leave half a file. Operations are queued within one
+ * process, but two processes updating the same file at once can still lose
+ * one another's write: run a single server per file.
+ *
+ * A file that isn't valid JSON or fails `isValid` is never overwritten: the
+ * first write moves it aside to a `.bak` file and says so on the console.
+ */
+export interface JsonFile<T> {
+  read<R>(operation: (data: T) => R): Promise<R>
+  // `operation` changes `data` in place and returns whether to write it out
+  update<R>(operation: (data: T) => { changed: boolean; result: R }): Promise<R>
+}
+
+interface Loaded<T> {
+  data: T
+  problem: string | null // why the file on disk couldn't be used
+}
+
+function getBackupPath(filePath: string, now: Date = new Date()): string {
+  return `${filePath}.${now.toISOString().replace(/[:.]/g, '-')}.bak`
+}
+
+export function createJsonFile<T>(filePath: string, empty: () => T, isValid: (value: unknown) => value is T): JsonFile<T> {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const load = async (): Promise<Loaded<T>> => {
+    let raw: string
+    try {
+      raw = await fs.readFile(filePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      return { data: empty(), problem: null }
+    }
+    try {
+      const parsed: unknown = JSON.parse(raw)
+      return isValid(parsed) ? { data: parsed, problem: null } : { data: empty(), problem: 'unexpected contents' }
+    } catch {
+      return { data: empty(), problem: 'not valid JSON' }
+    }
+  }
+
+  const save = async (value: T) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const temp = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(temp, JSON.stringify(value))
+    await fs.rename(temp, filePath)
+  }
+
+  // Run one operation after the ones before it, whether or not they failed
+  const enqueue = <R>(operation: () => Promise<R>): Promise<R> => {
+    const result = queue.then(operation, operation)
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  return {
+    read: operation => enqueue(async () => operation((await load()).data)),
+    update: operation => enqueue(async () => {
+      const { data, problem } = await load()
+      const { changed, result } = operation(data)
+      if (changed) {
+        if (problem) {
+          const backup = getBackupPath(filePath)
+          await fs.rename(filePath, backup)
+          console.warn(`${filePath} couldn't be read (${problem}); moved it to ${backup} and started over`)
+        }
+        await save(data)
+      }
+      return result
+    }),
+  }
+}
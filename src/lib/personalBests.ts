@@ -0,0 +1,78 @@
+const PERSONAL_BESTS_KEY = 'matrixle-personal-bests'
+
+export interface PersonalBest {
+  timeMs: number
+  guessCount: number
+  setAt: string // ISO 8601
+}
+
+// Fastest timed win per puzzle, keyed by puzzle id ('daily-<date>' or 'practice-<seed>')
+export type PersonalBests = Record<string, PersonalBest>
+
+function isPersonalBest(value: unknown): value is PersonalBest {
+  const best = value as Partial<PersonalBest> | null
+  return typeof best === 'object' && best !== null
+    && typeof best.timeMs === 'number' && best.timeMs >= 0
+    && typeof best.guessCount === 'number'
+    && typeof best.setAt === 'string'
+}
+
+/**
+ * Personal bests from untrusted JSON, dropping malformed entries
+ */
+export function parsePersonalBests(value: unknown): PersonalBests {
+  const bests: PersonalBests = {}
+  if (typeof value !== 'object' || value === null) return bests
+  Object.entries(value).forEach(([id, best]) => {
+    if (isPersonalBest(best)) bests[id] = best
+  })
+  return bests
+}
+
+export function loadPersonalBests(storage: Storage = localStorage): PersonalBests {
+  try {
+    return parsePersonalBests(JSON.parse(storage.getItem(PERSONAL_BESTS_KEY) ?? '{}'))
+  } catch {
+    return {}
+  }
+}
+
+export function savePersonalBests(bests: PersonalBests, storage: Storage = localStorage): void {
+  storage.setItem(PERSONAL_BESTS_KEY, JSON.stringify(bests))
+}
+
+/**
+ * Record a timed win. `isBest` is true when no earlier win on this puzzle was
+ * faster, so reloading a finished game still reports its own record.
+ */
+export function recordPersonalBest(
+  puzzleId: string,
+  timeMs: number,
+  guessCount: number,
+  storage: Storage = localStorage
+): { best: PersonalBest; isBest: boolean } {
+  const bests = loadPersonalBests(storage)
+  const previous = bests[puzzleId]
+  if (previous && previous.timeMs <= timeMs) {
+    return { best: previous, isBest: previous.timeMs === timeMs }
+  }
+  const best = { timeMs, guessCount, setAt: new Date().toISOString() }
+  savePersonalBests({ ...bests, [puzzleId]: best }, storage)
+  return { best, isBest: true }
+}
+
+/**
+ * Combine two sets of bests, keeping the faster time for each puzzle. Returns
+ * the merged set and the ids where `incoming` was faster.
+ */
+export function mergePersonalBests(local: PersonalBests, incoming: PersonalBests): { merged: PersonalBests; improved: string[] } {
+  const merged = { ...local }
+  const improved: string[] = []
+  Object.entries(incoming).forEach(([id, best]) => {
+    if (!merged[id] || best.timeMs < merged[id].timeMs) {
+      merged[id] = best
+      improved.push(id)
+    }
+  })
+  return { merged, improved }
+}
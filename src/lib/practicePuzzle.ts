@@ -0,0 +1,42 @@
+import type { Puzzle, PuzzleInfo } from '@/types/game'
+import { createPuzzle, getTodayString } from './dailyPuzzle'
+import { getPuzzlePool } from './puzzlePool'
+import { hashSeed, mulberry32 } from './random'
+
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789' // no 0/o or 1/l lookalikes
+const SEED_LENGTH = 6
+const MAX_SEED_LENGTH = 32
+
+/**
+ * Random seed for a new practice puzzle, short enough to read out loud
+ */
+export function createPracticeSeed(): string {
+  let seed = ''
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)]
+  }
+  return seed
+}
+
+/**
+ * Normalize a user-typed seed so "Abc " and "abc" open the same puzzle.
+ * Returns null when nothing usable is left.
+ */
+export function normalizePracticeSeed(input: string): string | null {
+  const seed = input.trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_SEED_LENGTH)
+  return seed.length > 0 ? seed : null
+}
+
+/**
+ * Practice puzzle for a seed, drawn straight from the valid puzzle pool so any
+ * seed works. The "practice:" prefix keeps the hash apart from daily seeds.
+ */
+export function getPracticePuzzle(seed: string): Puzzle {
+  const rand = mulberry32(hashSeed(`practice:${seed}`))
+  const pool = getPuzzlePool()
+  return createPuzzle(pool[Math.floor(rand() * pool.length)], `practice-${seed}`, getTodayString(), 'practice')
+}
+
+export function getPracticeSeed(puzzle: PuzzleInfo): string | null {
+  return puzzle.mode === 'practice' ? puzzle.id.slice('practice-'.length) : null
+}
@@ -0,0 +1,150 @@
+import { calculateStats, readDailyResults, type GameStats } from './stats'
+import { parseSettings, type Settings } from './settings'
+import { loadPersonalBests, mergePersonalBests, parsePersonalBests, savePersonalBests, type PersonalBests } from './personalBests'
+import { getBackupKey, getSaveDate, getSaveKey, parseSavedGame, readSavedGame, type SavedGame } from './saveFormat'
+import { loadJoinedGroups, mergeJoinedGroups, parseJoinedGroups, saveJoinedGroups, type JoinedGroup } from './groupsClient'
+import { loadFriendResults, mergeFriendResults, parseFriendResults, saveFriendResults, type FriendResults } from './friendResults'
+
+/**
+ * One-file backup of everything a player has, for moving between browsers:
+ * games, settings, personal bests, joined groups and pasted friends' results.
+ * Stats are included for people reading the file; on import they're
+ * recomputed from the games, so they can never disagree.
+ */
+export const PROGRESS_FORMAT = 'matrixle-progress'
+export const PROGRESS_VERSION = 1
+
+export interface ProgressFile {
+  format: typeof PROGRESS_FORMAT
+  version: typeof PROGRESS_VERSION
+  exportedAt: string // ISO 8601
+  settings: Settings
+  stats: GameStats
+  games: Record<string, SavedGame> // keyed by puzzle date
+  personalBests: PersonalBests
+  groups: JoinedGroup[]
+  friendResults: FriendResults
+}
+
+export interface ImportSummary {
+  added: string[]    // dates that had no local game
+  replaced: string[] // dates where the imported game won the conflict
+  kept: string[]     // dates where the local game won the conflict
+  rejected: { date: string; error: string }[]
+  personalBests: string[] // puzzle ids whose best time improved
+  groups: string[]        // invite codes of groups joined from the file
+  friendResults: string[] // boards ('#12') that gained friends' results
+  settings: Settings
+}
+
+export function exportProgress(settings: Settings, today: string, storage: Storage = localStorage): ProgressFile {
+  const games: Record<string, SavedGame> = {}
+  for (let i = 0; i < storage.length; i++) {
+    const date = getSaveDate(storage.key(i) ?? '')
+    const save = date ? readSavedGame(date, storage) : null
+    if (date && save) games[date] = save
+  }
+  return {
+    format: PROGRESS_FORMAT,
+    version: PROGRESS_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    stats: calculateStats(readDailyResults(storage), today),
+    games,
+    personalBests: loadPersonalBests(storage),
+    groups: loadJoinedGroups(storage),
+    friendResults: loadFriendResults(storage),
+  }
+}
+
+export function getExportFileName(today: string): string {
+  return `matrixle-progress-${today}.json`
+}
+
+/**
+ * Which of two saves for the same date to keep: a finished game beats an
+ * unfinished one, then more guesses win. Ties keep the local save.
+ */
+export function preferSave(local: SavedGame, incoming: SavedGame): 'local' | 'incoming' {
+  const localDone = local.status !== 'playing'
+  const incomingDone = incoming.status !== 'playing'
+  if (localDone !== incomingDone) return incomingDone ? 'incoming' : 'local'
+  return incoming.guesses.length > local.guesses.length ? 'incoming' : 'local'
+}
+
+/**
+ * Merge an exported progress file into storage. Each game is validated on its
+ * own, so one bad entry doesn't block the rest. Settings are returned, not
+ * applied, so the caller can save them through the usual path.
+ */
+export function importProgress(raw: string, storage: Storage = localStorage): ImportSummary {
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    throw new Error('This file is not valid JSON')
+  }
+  const file = data as Partial<ProgressFile> | null
+  if (typeof file !== 'object' || file === null || file.format !== PROGRESS_FORMAT) {
+    throw new Error('This is not a Matrixle progress file')
+  }
+  if (file.version !== PROGRESS_VERSION) {
+    throw new Error(`Unsupported progress file version ${String(file.version)}`)
+  }
+  if (typeof file.games !== 'object' || file.games === null) {
+    throw new Error('The progress file has no games')
+  }
+
+  const summary: ImportSummary = {
+    added: [],
+    replaced: [],
+    kept: [],
+    rejected: [],
+    personalBests: [],
+    groups: [],
+    friendResults: [],
+    settings: parseSettings(file.settings),
+  }
+
+  // Files from before timed mode have no personal bests
+  const { merged, improved } = mergePersonalBests(loadPersonalBests(storage), parsePersonalBests(file.personalBests))
+  if (improved.length > 0) savePersonalBests(merged, storage)
+  summary.personalBests = improved
+
+  // Nor do files from before groups
+  const groups = mergeJoinedGroups(loadJoinedGroups(storage), parseJoinedGroups(file.groups))
+  if (groups.added.length > 0) saveJoinedGroups(groups.merged, storage)
+  summary.groups = groups.added
+
+  const friendResults = mergeFriendResults(loadFriendResults(storage), parseFriendResults(file.friendResults))
+  if (friendResults.added.length > 0) saveFriendResults(friendResults.merged, storage)
+  summary.friendResults = friendResults.added
+
+  Object.entries(file.games).sort(([x], [y]) => x.localeCompare(y)).forEach(([date, game]) => {
+    if (getSaveDate(getSaveKey(date)) !== date) {
+      summary.rejected.push({ date, error: 'not a puzzle date' })
+      return
+    }
+    const parsed = parseSavedGame(JSON.stringify(game))
+    if (!parsed.ok) {
+      summary.rejected.push({ date, error: parsed.error })
+      return
+    }
+
+    const existing = storage.getItem(getSaveKey(date))
+    const local = readSavedGame(date, storage)
+    if (local && preferSave(local, parsed.save) === 'local') {
+      summary.kept.push(date)
+      return
+    }
+    // An unreadable local save loses to anything valid, but is backed up first
+    if (existing !== null && !local) storage.setItem(getBackupKey(date), existing)
+    // Outrank the local revision so open tabs adopt the import instead of overwriting it
+    const revision = Math.max(parsed.save.revision, local?.revision ?? 0) + 1
+    storage.setItem(getSaveKey(date), JSON.stringify({ ...parsed.save, revision }))
+    if (existing !== null) summary.replaced.push(date)
+    else summary.added.push(date)
+  })
+
+  return summary
+}
@@ -0,0 +1,35 @@
+import type { PuzzleValues } from '@/types/game'
+
+let pool: PuzzleValues[] | null = null
+
+export function valuesKey(values: Pick<PuzzleValues, 'matrix' | 'vector'>): string {
+  const { matrix: { a, b, c, d }, vector: { e, f } } = values
+  return `${a}${b}${c}${d}${e}${f}`
+}
+
+export function valuesToDigits(values: PuzzleValues): number[] {
+  const { matrix: { a, b, c, d }, vector: { e, f }, result: { g, h } } = values
+  return [a, b, c, d, e, f, g, h]
+}
+
+/**
+ * Every valid puzzle: a–f in 1–9 with both results g and h single digits,
+ * in lexicographic (a, b, c, d, e, f) order
+ */
+export function getPuzzlePool(): PuzzleValues[] {
+  if (pool) return pool
+  pool = []
+  for (let a = 1; a <= 9; a++)
+    for (let b = 1; b <= 9; b++)
+      for (let c = 1; c <= 9; c++)
+        for (let d = 1; d <= 9; d++)
+          for (let e = 1; e <= 9; e++)
+            for (let f = 1; f <= 9; f++) {
+              const g = a * e + b * f
+              const h = c * e + d * f
+              if (g <= 9 && h <= 9) {
+                pool.push({ matrix: { a, b, c, d }, vector: { e, f }, result: { g, h } })
+              }
+            }
+  return pool
+}
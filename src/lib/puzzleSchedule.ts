@@ -0,0 +1,103 @@
+import type { PuzzleValues } from '@/types/game'
+import { DIFFICULTY_LEVELS, rateDifficulty } from './difficulty'
+import { getPuzzlePool, valuesKey } from './puzzlePool'
+import { hashSeed, mulberry32, shuffle } from './random'
+
+// Bump to reshuffle the schedule; doing so changes every scheduled date
+const SCHEDULE_SEED = 'matrixle-schedule-v1'
+
+/**
+ * Secret mixed into the schedule seed so upcoming puzzles can't be worked out
+ * from the source. Only the server has it: the browser bundle never sees
+ * non-public environment variables, which is why the client asks the server
+ * to check its guesses. Unset in development and tests.
+ */
+export function getPuzzleSalt(): string {
+  return process.env.MATRIXLE_PUZZLE_SALT ?? ''
+}
+
+let ordersSalt: string | null = null
+let orders: PuzzleValues[][] | null = null
+let indexByKey: Map<string, number> | null = null
+
+interface FirstCycles {
+  source: PuzzleValues[][] // the orders they were cut from
+  retired: ReadonlySet<string>
+  orders: PuzzleValues[][]
+  indexByKey: Map<string, number>
+}
+
+const NONE: ReadonlySet<string> = new Set()
+let firstCycles: FirstCycles | null = null
+
+/**
+ * One fixed permutation per difficulty level (index 0 = level 1)
+ */
+function getScheduleOrders(): PuzzleValues[][] {
+  const salt = getPuzzleSalt()
+  if (orders && ordersSalt === salt) return orders
+  const levels: PuzzleValues[][] = Array.from({ length: DIFFICULTY_LEVELS }, () => [])
+  getPuzzlePool().forEach(values => levels[rateDifficulty(values) - 1].push(values))
+
+  const rand = mulberry32(hashSeed(salt ? `${SCHEDULE_SEED}:${salt}` : SCHEDULE_SEED))
+  orders = levels.map(level => shuffle(level, rand))
+  ordersSalt = salt
+  indexByKey = null
+  return orders
+}
+
+// Each level's permutation without the retired puzzles
+function getFirstCycles(retired: ReadonlySet<string>): FirstCycles {
+  const source = getScheduleOrders()
+  if (firstCycles && firstCycles.source === source && firstCycles.retired === retired) return firstCycles
+  const cut = retired.size === 0 ? source : source.map(order => order.filter(v => !retired.has(valuesKey(v))))
+  firstCycles = {
+    source,
+    retired,
+    orders: cut,
+    indexByKey: new Map(cut.flatMap(order => order.map((v, i) => [valuesKey(v), i] as const))),
+  }
+  return firstCycles
+}
+
+/**
+ * The puzzle for the nth day that asks for a given difficulty. Each level walks
+ * its own fixed permutation, so a puzzle only comes back after every other
+ * puzzle of its level has been used once. Puzzles in `retired` (keyed by
+ * valuesKey: ones already served some other way) are left out of the first
+ * pass. Negative occurrences wrap around the end of the permutation.
+ */
+export function getScheduledPuzzle(difficulty: number, occurrence: number, retired: ReadonlySet<string> = NONE): PuzzleValues {
+  const order = getScheduleOrders()[difficulty - 1]
+  const first = getFirstCycles(retired).orders[difficulty - 1]
+  if (occurrence >= 0 && occurrence < first.length) return first[occurrence]
+  const n = order.length
+  return order[(((occurrence - first.length) % n) + n) % n]
+}
+
+/**
+ * First occurrence >= fromOccurrence (counted within the puzzle's own
+ * difficulty level) that serves the given puzzle, or null when it isn't a
+ * valid puzzle at all
+ */
+export function findScheduleOccurrence(
+  values: PuzzleValues,
+  fromOccurrence = 0,
+  retired: ReadonlySet<string> = NONE
+): number | null {
+  const schedule = getScheduleOrders()
+  if (!indexByKey) {
+    indexByKey = new Map(schedule.flatMap(order => order.map((v, i) => [valuesKey(v), i] as const)))
+  }
+  const index = indexByKey.get(valuesKey(values))
+  if (index === undefined) return null
+
+  const cycles = getFirstCycles(retired)
+  const firstIndex = cycles.indexByKey.get(valuesKey(values))
+  if (firstIndex !== undefined && firstIndex >= fromOccurrence) return firstIndex
+
+  const level = rateDifficulty(values) - 1
+  const offset = cycles.orders[level].length + index
+  const n = schedule[level].length
+  return offset + Math.max(0, Math.ceil((fromOccurrence - offset) / n)) * n
+}
@@ -0,0 +1,34 @@
+/**
+ * Seeded randomness shared by every puzzle generator. Changing any of these
+ * changes which puzzle a date or seed maps to.
+ */
+
+export function hashSeed(seed: string): number {
+  let hash = 0
+  for (let i = 0; i < seed.length; i++) {
+    hash = (Math.imul(31, hash) + seed.charCodeAt(i)) | 0
+  }
+  return hash >>> 0
+}
+
+export function mulberry32(seed: number): () => number {
+  return function (): number {
+    seed |= 0
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Fisher–Yates shuffle into a new array
+ */
+export function shuffle<T>(items: T[], rand: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
@@ -0,0 +1,65 @@
+import type { Guess, PuzzleInfo } from '@/types/game'
+import { getPuzzleNumber } from './dailyPuzzle'
+import { getPracticeSeed } from './practicePuzzle'
+import { DEFAULT_GUESS_LIMIT } from './engine'
+import { valuesToDigits } from './puzzlePool'
+
+/**
+ * Shareable replays. A link carries the puzzle (daily number or practice seed)
+ * and each guess as its eight digits plus the whole seconds since the guess
+ * before, in base 36:
+ *
+ *   /replay?puzzle=42&g=12341137.1234113712z
+ *
+ * Games with a guess limit other than the default add `limit=<n>`, or
+ * `limit=none` for unlimited.
+ *
+ * Feedback isn't in the link; it's recomputed on the server by replaying the
+ * guesses through the engine (see replayDecoder), which also rejects anything
+ * that isn't a finished game.
+ */
+export interface ReplayParams {
+  puzzle?: string
+  seed?: string
+  g?: string
+  limit?: string
+}
+
+export function encodeReplayGuesses(guesses: Guess[]): string {
+  return guesses.map((guess, i) => {
+    const gap = i === 0 ? 0 : Math.max(0, Math.round((guess.timestamp.getTime() - guesses[i - 1].timestamp.getTime()) / 1000))
+    return valuesToDigits(guess).join('') + (gap > 0 ? gap.toString(36) : '')
+  }).join('.')
+}
+
+export function getReplayParams(puzzle: PuzzleInfo, guesses: Guess[], maxGuesses: number | null = DEFAULT_GUESS_LIMIT): ReplayParams {
+  const seed = getPracticeSeed(puzzle)
+  return {
+    ...(seed !== null ? { seed } : { puzzle: String(getPuzzleNumber(puzzle.date)) }),
+    g: encodeReplayGuesses(guesses),
+    ...(maxGuesses === DEFAULT_GUESS_LIMIT ? {} : { limit: String(maxGuesses ?? 'none') }),
+  }
+}
+
+export function getReplayPath(puzzle: PuzzleInfo, guesses: Guess[], maxGuesses: number | null = DEFAULT_GUESS_LIMIT): string {
+  const params = getReplayParams(puzzle, guesses, maxGuesses)
+  const query = params.seed !== undefined ? `seed=${encodeURIComponent(params.seed)}` : `puzzle=${params.puzzle}`
+  const limit = params.limit !== undefined ? `&limit=${params.limit}` : ''
+  return `/replay?${query}&g=${params.g}${limit}`
+}
+
+/**
+ * Milliseconds each guess took after the one before; null for the first,
+ * since the game doesn't record when it started
+ */
+export function getGuessDurations(guesses: Guess[]): (number | null)[] {
+  return guesses.map((guess, i) => (
+    i === 0 ? null : guess.timestamp.getTime() - guesses[i - 1].timestamp.getTime()
+  ))
+}
+
+// Milliseconds from the first guess to the last
+export function getSolveTime(guesses: Guess[]): number {
+  if (guesses.length === 0) return 0
+  return guesses[guesses.length - 1].timestamp.getTime() - guesses[0].timestamp.getTime()
+}
@@ -0,0 +1,77 @@
+import type { Guess, Puzzle } from '@/types/game'
+import { getDateForPuzzleNumber } from './dailyPuzzle'
+import { getDailyPuzzle } from './dailyAnswer'
+import { isPlayablePuzzleNumber } from './guessApi'
+import { getPracticePuzzle, normalizePracticeSeed } from './practicePuzzle'
+import { replayGame, DEFAULT_GUESS_LIMIT, type GameEvent } from './engine'
+import type { ReplayParams } from './replay'
+
+/**
+ * Server half of replays: turns a link (see replay) back into a scored game.
+ * Kept apart from replay because it needs the daily answers.
+ */
+export interface ReplayData {
+  puzzle: Puzzle
+  guesses: Guess[]
+  maxGuesses: number | null
+}
+
+const GUESS_TOKEN = /^(\d{8})([0-9a-z]{0,6})$/
+const MAX_REPLAY_GUESSES = 100 // bounds the work an unlimited game's link can ask for
+
+function decodeGuessLimit(limit: string | undefined): number | null | undefined {
+  if (limit === undefined) return DEFAULT_GUESS_LIMIT
+  if (limit === 'none') return null
+  return /^\d+$/.test(limit) && Number(limit) >= 1 ? Number(limit) : undefined
+}
+
+function decodePuzzle({ puzzle, seed }: ReplayParams, now: Date): Puzzle | null {
+  if (seed !== undefined) {
+    const normalized = normalizePracticeSeed(seed)
+    return normalized === null ? null : getPracticePuzzle(normalized)
+  }
+  // Numbers not yet out anywhere would leak feedback for future puzzles; the
+  // player's day may start before the server's, so go by /api/guess's rule
+  const number = Number(puzzle)
+  if (!isPlayablePuzzleNumber(number, now)) return null
+  return getDailyPuzzle(getDateForPuzzleNumber(number))
+}
+
+/**
+ * The puzzle and scored guesses a replay link describes, or null when the link
+ * is malformed or doesn't describe a finished game. Timestamps are rebuilt
+ * from the gaps, starting at the Unix epoch. Server only, like getDailyPuzzle.
+ */
+export function decodeReplay(params: ReplayParams, now: Date = new Date()): ReplayData | null {
+  if (!params.g) return null
+  const puzzle = decodePuzzle(params, now)
+  if (!puzzle) return null
+
+  const maxGuesses = decodeGuessLimit(params.limit)
+  if (maxGuesses === undefined) return null
+
+  const tokens = params.g.split('.')
+  if (tokens.length > Math.min(maxGuesses ?? Infinity, MAX_REPLAY_GUESSES)) return null
+
+  let time = 0
+  const events: GameEvent[] = [{ type: 'GuessLimitSet', maxGuesses }]
+  for (const token of tokens) {
+    const match = token.match(GUESS_TOKEN)
+    if (!match) return null
+    const d = match[1].split('').map(Number)
+    time += (match[2] ? parseInt(match[2], 36) : 0) * 1000
+    events.push({
+      type: 'GuessSubmitted',
+      guess: {
+        matrix: { a: d[0], b: d[1], c: d[2], d: d[3] },
+        vector: { e: d[4], f: d[5] },
+        result: { g: d[6], h: d[7] },
+      },
+      timestamp: new Date(time),
+    })
+  }
+
+  const { state, log } = replayGame(puzzle, events)
+  if (log.length !== events.length || state.status === 'playing') return null
+  return { puzzle, guesses: state.guesses, maxGuesses }
+}
@@ -0,0 +1,53 @@
+import type { GlobalDistribution, ResultReport } from './globalResults'
+import type { ReplayParams } from './replay'
+
+/**
+ * Browser side of /api/results (see globalResults). Reporting is best effort:
+ * failures are swallowed, and the game plays the same without it.
+ */
+const CLIENT_ID_KEY = 'matrixle-client-id'
+
+// A random id for this browser, created on first use
+export function getClientId(storage: Storage = localStorage): string {
+  let id = storage.getItem(CLIENT_ID_KEY)
+  if (!id) {
+    id = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('')
+    storage.setItem(CLIENT_ID_KEY, id)
+  }
+  return id
+}
+
+export async function reportGlobalResult(params: ReplayParams, clientId: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  if (params.puzzle === undefined || params.g === undefined) return
+  const report: ResultReport = { clientId, puzzle: params.puzzle, g: params.g, limit: params.limit }
+  try {
+    await fetchImpl('/api/results', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(report),
+    })
+  } catch {
+    // offline: this game just isn't counted
+  }
+}
+
+export async function requestDistribution(puzzleNumber: number, fetchImpl: typeof fetch = fetch): Promise<GlobalDistribution | null> {
+  try {
+    const response = await fetchImpl(`/api/results/${puzzleNumber}`)
+    return response.ok ? await response.json() as GlobalDistribution : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Share of players (rounded percent) with a strictly worse result than
+ * `guessCount` (null = a loss, which beats nobody)
+ */
+export function getBeatPercentage(distribution: GlobalDistribution, guessCount: number | null): number {
+  if (guessCount === null || distribution.players === 0) return 0
+  const slower = distribution.wins.slice(guessCount).reduce((sum, count) => sum + count, 0)
+  return Math.round(((slower + distribution.losses) / distribution.players) * 100)
+}
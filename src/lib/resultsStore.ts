@@ -0,0 +1,87 @@
+import { createJsonFile } from './jsonFile'
+
+/**
+ * Storage for the anonymous global results (see globalResults). Each puzzle
+ * keeps a tally of scores plus the hashed reporter keys used to count each
+ * browser once; nothing ties a score to a player.
+ */
+export interface PuzzleTally {
+  wins: number[] // wins[n - 1] = games won in n guesses
+  losses: number
+}
+
+export interface ResultsStore {
+  // Count one finished game (guessCount null = a loss); false when this
+  // reporter was already counted for the puzzle
+  record(puzzleNumber: number, reporter: string, guessCount: number | null): Promise<boolean>
+  getTally(puzzleNumber: number): Promise<PuzzleTally>
+}
+
+interface StoredPuzzle extends PuzzleTally {
+  reporters: string[]
+}
+
+interface StoredResults {
+  version: 1
+  puzzles: Record<string, StoredPuzzle>
+}
+
+const DEFAULT_RESULTS_FILE = '.data/results.json'
+
+function emptyResults(): StoredResults {
+  return { version: 1, puzzles: {} }
+}
+
+function addResult(data: StoredResults, puzzleNumber: number, reporter: string, guessCount: number | null): boolean {
+  const puzzle = data.puzzles[puzzleNumber] ?? { wins: [], losses: 0, reporters: [] }
+  if (puzzle.reporters.includes(reporter)) return false
+
+  if (guessCount === null) {
+    puzzle.losses += 1
+  } else {
+    while (puzzle.wins.length < guessCount) puzzle.wins.push(0)
+    puzzle.wins[guessCount - 1] += 1
+  }
+  puzzle.reporters.push(reporter)
+  data.puzzles[puzzleNumber] = puzzle
+  return true
+}
+
+function getTally(data: StoredResults, puzzleNumber: number): PuzzleTally {
+  const puzzle = data.puzzles[puzzleNumber]
+  return puzzle ? { wins: [...puzzle.wins], losses: puzzle.losses } : { wins: [], losses: 0 }
+}
+
+export function createMemoryStore(): ResultsStore {
+  const data = emptyResults()
+  return {
+    record: async (puzzleNumber, reporter, guessCount) => addResult(data, puzzleNumber, reporter, guessCount),
+    getTally: async puzzleNumber => getTally(data, puzzleNumber),
+  }
+}
+
+function isStoredResults(value: unknown): value is StoredResults {
+  const results = value as Partial<StoredResults> | null
+  return typeof results === 'object' && results !== null && results.version === 1
+    && typeof results.puzzles === 'object' && results.puzzles !== null
+}
+
+// Results kept in one JSON file, for running without a database
+export function createJsonFileStore(filePath: string): ResultsStore {
+  const file = createJsonFile(filePath, emptyResults, isStoredResults)
+  return {
+    record: (puzzleNumber, reporter, guessCount) => file.update(data => {
+      const added = addResult(data, puzzleNumber, reporter, guessCount)
+      return { changed: added, result: added }
+    }),
+    getTally: puzzleNumber => file.read(data => getTally(data, puzzleNumber)),
+  }
+}
+
+let store: ResultsStore | null = null
+
+// The server's store: the JSON file named by MATRIXLE_RESULTS_FILE
+export function getResultsStore(): ResultsStore {
+  if (!store) store = createJsonFileStore(process.env.MATRIXLE_RESULTS_FILE ?? DEFAULT_RESULTS_FILE)
+  return store
+}
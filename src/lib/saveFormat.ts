@@ -0,0 +1,230 @@
+import type { FeedbackColor, GameState, GameStatus, GameTimer, Guess, Puzzle, PuzzleInfo } from '@/types/game'
+import { calculateDigitStats } from './feedback'
+import { isValidGuessLimit } from './engine'
+
+/**
+ * Versioned localStorage format for daily games.
+ *
+ * Version 1 was the whole GameState run through JSON.stringify, with no
+ * version field. Version 2 drops everything derivable: the puzzle comes from
+ * the date and digitStats from the guesses. Version 3 adds a revision that
+ * every write bumps, so open tabs can tell which copy is newest. Version 4
+ * adds the clock of timed games. Version 5 adds the guess limit.
+ *
+ * To change the format: bump SAVE_VERSION, update SavedGame, and add a
+ * migration from the previous version to MIGRATIONS.
+ */
+export const SAVE_VERSION = 5
+
+export interface SavedGuess {
+  matrix: Guess['matrix']
+  vector: Guess['vector']
+  result: Guess['result']
+  feedback: FeedbackColor[]
+  timestamp: string // ISO 8601
+}
+
+export interface SavedGame {
+  version: typeof SAVE_VERSION
+  guesses: SavedGuess[]
+  currentGuess: number
+  status: GameStatus
+  retried: boolean
+  hardMode: boolean
+  revision: number // bumped on every write; the higher revision is the newer game
+  timer: GameTimer | null
+  maxGuesses: number | null
+}
+
+export type ParseResult =
+  | { ok: true; save: SavedGame }
+  | { ok: false; error: string }
+
+export function getSaveKey(date: string): string {
+  return `matrixle-${date}`
+}
+
+const SAVE_KEY = /^matrixle-(\d{4}-\d{2}-\d{2})$/
+
+// The date a storage key saves, or null for any other key
+export function getSaveDate(key: string): string | null {
+  return key.match(SAVE_KEY)?.[1] ?? null
+}
+
+// Where unreadable saves are moved so a reset never destroys them
+export function getBackupKey(date: string): string {
+  return `matrixle-backup-${date}`
+}
+
+type Migration = (save: Record<string, unknown>) => Record<string, unknown>
+
+// MIGRATIONS[n] upgrades a version-n save to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  1: ({ puzzle: _puzzle, digitStats: _digitStats, ...rest }) => ({
+    ...rest,
+    hardMode: rest.hardMode ?? false,
+    version: 2,
+  }),
+  2: save => ({
+    ...save,
+    revision: Array.isArray(save.guesses) ? save.guesses.length : 0,
+    version: 3,
+  }),
+  3: save => ({ ...save, timer: null, version: 4 }),
+  4: save => ({ ...save, maxGuesses: 6, version: 5 }),
+}
+
+const FEEDBACK_COLORS: FeedbackColor[] = ['correct', 'wrong-position', 'not-in-puzzle']
+const STATUSES: GameStatus[] = ['playing', 'won', 'lost']
+
+function isDigit(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 9
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function hasDigits(value: unknown, keys: string[]): boolean {
+  return isRecord(value) && keys.every(key => isDigit(value[key]))
+}
+
+function isTimer(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.elapsedMs === 'number' && value.elapsedMs >= 0
+    && (value.runningSince === null || typeof value.runningSince === 'number')
+}
+
+/**
+ * Describe what's wrong with a supposedly current-version save, or null when
+ * it is well-formed
+ */
+function validateSave(save: Record<string, unknown>): string | null {
+  if (!Array.isArray(save.guesses)) return 'guesses is not a list'
+  for (let i = 0; i < save.guesses.length; i++) {
+    const guess: unknown = save.guesses[i]
+    if (!isRecord(guess)) return `guess ${i + 1} is not an object`
+    if (!hasDigits(guess.matrix, ['a', 'b', 'c', 'd'])
+      || !hasDigits(guess.vector, ['e', 'f'])
+      || !hasDigits(guess.result, ['g', 'h'])) {
+      return `guess ${i + 1} has missing or invalid digits`
+    }
+    if (!Array.isArray(guess.feedback) || guess.feedback.length !== 8
+      || !guess.feedback.every(color => FEEDBACK_COLORS.includes(color))) {
+      return `guess ${i + 1} has invalid feedback`
+    }
+    if (typeof guess.timestamp !== 'string' || isNaN(Date.parse(guess.timestamp))) {
+      return `guess ${i + 1} has an invalid timestamp`
+    }
+  }
+  if (!Number.isInteger(save.currentGuess) || (save.currentGuess as number) < 0) return 'currentGuess is invalid'
+  if (!STATUSES.includes(save.status as GameStatus)) return 'status is invalid'
+  if (typeof save.retried !== 'boolean') return 'retried is not a boolean'
+  if (typeof save.hardMode !== 'boolean') return 'hardMode is not a boolean'
+  if (!Number.isInteger(save.revision) || (save.revision as number) < 0) return 'revision is invalid'
+  if (save.timer !== null && !isTimer(save.timer)) return 'timer is invalid'
+  if (!isValidGuessLimit(save.maxGuesses)) return 'maxGuesses is invalid'
+  return null
+}
+
+/**
+ * Parse, migrate to the current version and validate a raw save
+ */
+export function parseSavedGame(raw: string): ParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    return { ok: false, error: 'not valid JSON' }
+  }
+  if (!isRecord(data)) return { ok: false, error: 'not an object' }
+
+  let save = data
+  let version = save.version === undefined ? 1 : save.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: `unknown save version ${String(version)}` }
+  }
+  if (version > SAVE_VERSION) {
+    return { ok: false, error: `save version ${version} is newer than this app supports` }
+  }
+  while (version < SAVE_VERSION) {
+    save = MIGRATIONS[version](save)
+    version++
+  }
+
+  const error = validateSave(save)
+  if (error) return { ok: false, error }
+  return { ok: true, save: save as unknown as SavedGame }
+}
+
+export function toSavedGame(state: GameState, revision: number): SavedGame {
+  return {
+    version: SAVE_VERSION,
+    guesses: state.guesses.map(guess => ({
+      matrix: guess.matrix,
+      vector: guess.vector,
+      result: guess.result,
+      feedback: guess.feedback,
+      timestamp: guess.timestamp.toISOString(),
+    })),
+    currentGuess: state.currentGuess,
+    status: state.status,
+    retried: state.retried,
+    hardMode: state.hardMode,
+    revision,
+    timer: state.timer,
+    maxGuesses: state.maxGuesses,
+  }
+}
+
+export function fromSavedGame(save: SavedGame, puzzle: PuzzleInfo): GameState {
+  const guesses = save.guesses.map(guess => ({ ...guess, timestamp: new Date(guess.timestamp) }))
+  return {
+    puzzle,
+    guesses,
+    currentGuess: save.currentGuess,
+    status: save.status,
+    digitStats: calculateDigitStats(guesses),
+    retried: save.retried,
+    hardMode: save.hardMode,
+    // A clock left running by a closed page resumes from its banked time
+    timer: save.timer && { ...save.timer, runningSince: null },
+    maxGuesses: save.maxGuesses,
+  }
+}
+
+/**
+ * The daily save for a date, migrated to the current version, or null when
+ * there is none or it can't be read. Read-only: never writes a backup.
+ */
+export function readSavedGame(date: string, storage: Storage = localStorage): SavedGame | null {
+  const raw = storage.getItem(getSaveKey(date))
+  if (raw === null) return null
+  const parsed = parseSavedGame(raw)
+  return parsed.ok ? parsed.save : null
+}
+
+export interface LoadResult {
+  state: GameState | null
+  revision: number // of the loaded save; 0 when there was none
+  error?: string   // why an existing save couldn't be read
+}
+
+/**
+ * Load the daily save for a puzzle. Unreadable saves are copied to the backup
+ * key before being reported, so starting over never loses them.
+ */
+export function loadDailyGame(puzzle: PuzzleInfo, storage: Storage = localStorage): LoadResult {
+  const raw = storage.getItem(getSaveKey(puzzle.date))
+  if (raw === null) return { state: null, revision: 0 }
+
+  const parsed = parseSavedGame(raw)
+  if (parsed.ok) return { state: fromSavedGame(parsed.save, puzzle), revision: parsed.save.revision }
+
+  storage.setItem(getBackupKey(puzzle.date), raw)
+  return { state: null, revision: 0, error: parsed.error }
+}
+
+export function saveDailyGame(state: GameState, revision: number, storage: Storage = localStorage): void {
+  storage.setItem(getSaveKey(state.puzzle.date), JSON.stringify(toSavedGame(state, revision)))
+}
@@ -0,0 +1,138 @@
+import type { PuzzleValues } from '@/types/game'
+import type { CuratedEntry } from './curatedPuzzles'
+import { getCuratedEntry } from './curatedPuzzles'
+import { EPOCH, getDateForPuzzleNumber, getGeneratedPuzzle, getPuzzleNumber } from './dailyPuzzle'
+import { rateDifficulty } from './difficulty'
+import { isPlayableDate } from './guessApi'
+import { valuesKey, valuesToDigits } from './puzzlePool'
+import { isValidDigit, validateMatrixMultiplication } from './validation'
+
+/**
+ * Checks for the curated puzzle file, run by `npm run schedule:check`.
+ * Server side only: looking at generated dates needs the puzzle salt.
+ */
+export interface ScheduleDay {
+  date: string
+  puzzleNumber: number
+  values: PuzzleValues
+  difficulty: number
+  curated: boolean
+  note?: string
+}
+
+// A curated puzzle may not be served within this many days of itself
+export const RECENT_DAYS = 60
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && getDateForPuzzleNumber(getPuzzleNumber(value)) === value
+}
+
+function shiftDate(date: string, days: number): string {
+  return getDateForPuzzleNumber(getPuzzleNumber(date) + days)
+}
+
+function hasValueShape(entry: Partial<CuratedEntry>): boolean {
+  return typeof entry.matrix === 'object' && entry.matrix !== null
+    && typeof entry.vector === 'object' && entry.vector !== null
+    && typeof entry.result === 'object' && entry.result !== null
+}
+
+export function formatPuzzleValues(values: PuzzleValues): string {
+  const [a, b, c, d, e, f, g, h] = valuesToDigits(values)
+  return `[${a} ${b}; ${c} ${d}] × [${e}; ${f}] = [${g}; ${h}]`
+}
+
+export interface ValidateOptions {
+  now?: Date
+  // Accept entries whose date has started somewhere (see isPlayableDate)
+  allowPublished?: boolean
+}
+
+/**
+ * Problems with a curated file's entries, one message each; empty when the
+ * file is fine. Entries must multiply out with single digits, take a date
+ * each at most once, and not repeat a puzzle served within RECENT_DAYS.
+ * Pinning a date that is already out somewhere swaps a puzzle people may be
+ * playing, so those need allowPublished.
+ */
+export function validateCuratedEntries(entries: unknown, { now = new Date(), allowPublished = false }: ValidateOptions = {}): string[] {
+  if (!Array.isArray(entries)) return ['The curated file must hold an array of entries']
+
+  const errors: string[] = []
+  const valid: { entry: CuratedEntry; where: string }[] = []
+  const dates = new Set<string>()
+  entries.forEach((value, i) => {
+    const entry = (typeof value === 'object' && value !== null ? value : {}) as Partial<CuratedEntry>
+    const where = isDate(entry.date) ? `Entry ${i + 1} (${entry.date})` : `Entry ${i + 1}`
+    if (!isDate(entry.date)) {
+      errors.push(`${where}: date must be a YYYY-MM-DD calendar date`)
+      return
+    }
+    if (dates.has(entry.date)) errors.push(`${where}: another entry already has this date`)
+    dates.add(entry.date)
+    if (!allowPublished && isPlayableDate(entry.date, now)) {
+      errors.push(`${where}: this date has already started somewhere`)
+    }
+
+    if (!hasValueShape(entry)) {
+      errors.push(`${where}: needs matrix { a, b, c, d }, vector { e, f } and result { g, h }`)
+      return
+    }
+    const digits = valuesToDigits(entry as CuratedEntry)
+    if (!digits.every(isValidDigit)) {
+      errors.push(`${where}: every value must be a digit 0–9`)
+      return
+    }
+    if (!validateMatrixMultiplication(entry.matrix!, entry.vector!, entry.result!)) {
+      errors.push(`${where}: ${formatPuzzleValues(entry as CuratedEntry)} doesn't multiply out`)
+      return
+    }
+    valid.push({ entry: entry as CuratedEntry, where })
+  })
+
+  const curated = valid.map(({ entry }) => entry)
+  valid.forEach(({ entry, where }) => {
+    const key = valuesKey(entry)
+    for (let offset = -RECENT_DAYS; offset <= RECENT_DAYS; offset++) {
+      const date = shiftDate(entry.date, offset)
+      if (offset === 0 || date < EPOCH) continue
+      const served = getCuratedEntry(date, curated) ?? getGeneratedPuzzle(date)
+      if (valuesKey(served) === key) {
+        errors.push(`${where}: the same puzzle is served on ${date}`)
+        break
+      }
+    }
+  })
+  return errors
+}
+
+/**
+ * Each curated date's rating, which is all the browser gets to know about a
+ * curated puzzle: the contents of src/data/curatedDifficulties.json
+ */
+export function getCuratedDifficulties(entries: CuratedEntry[]): Record<string, number> {
+  const sorted = [...entries].sort((x, y) => x.date.localeCompare(y.date))
+  return Object.fromEntries(sorted.map(entry => [entry.date, rateDifficulty(entry)]))
+}
+
+/**
+ * What will be served on each of `days` dates from `from`, with curated
+ * entries taking their dates the way getDailyPuzzle does
+ */
+export function previewSchedule(from: string, days: number, entries: CuratedEntry[]): ScheduleDay[] {
+  return Array.from({ length: days }, (_, i) => {
+    const date = shiftDate(from, i)
+    const entry = getCuratedEntry(date, entries)
+    const values = entry ?? getGeneratedPuzzle(date)
+    return {
+      date,
+      puzzleNumber: getPuzzleNumber(date),
+      values,
+      difficulty: rateDifficulty(values),
+      curated: entry !== null,
+      note: entry?.note,
+    }
+  })
+}
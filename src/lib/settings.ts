@@ -0,0 +1,68 @@
+const SETTINGS_KEY = 'matrixle-settings'
+
+// Fired on window after saveSettings so open views can react without a reload
+export const SETTINGS_CHANGED_EVENT = 'matrixle-settings-changed'
+
+export interface Settings {
+  rolloverTimeZone: string | null // IANA zone the daily puzzle rolls over in; null = device local time
+  showRemainingCount: boolean     // show how many answers are still possible after each guess
+  showCellCandidates: boolean     // show the digits still possible in each cell
+  timedMode: boolean              // time each game from the first keystroke
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  rolloverTimeZone: null,
+  showRemainingCount: false,
+  showCellCandidates: false,
+  timedMode: false,
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Settings from untrusted JSON: unknown or mistyped fields fall back to the
+ * defaults
+ */
+export function parseSettings(value: unknown): Settings {
+  const settings = { ...DEFAULT_SETTINGS }
+  if (typeof value !== 'object' || value === null) return settings
+  const parsed = value as Partial<Record<keyof Settings, unknown>>
+  if (typeof parsed.rolloverTimeZone === 'string' && isValidTimeZone(parsed.rolloverTimeZone)) {
+    settings.rolloverTimeZone = parsed.rolloverTimeZone
+  }
+  if (typeof parsed.showRemainingCount === 'boolean') settings.showRemainingCount = parsed.showRemainingCount
+  if (typeof parsed.showCellCandidates === 'boolean') settings.showCellCandidates = parsed.showCellCandidates
+  if (typeof parsed.timedMode === 'boolean') settings.timedMode = parsed.timedMode
+  return settings
+}
+
+export function loadSettings(): Settings {
+  if (typeof window === 'undefined') return { ...DEFAULT_SETTINGS }
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY)
+    if (!saved) return { ...DEFAULT_SETTINGS }
+    return parseSettings(JSON.parse(saved))
+  } catch {
+    return { ...DEFAULT_SETTINGS }
+  }
+}
+
+export function saveSettings(settings: Settings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  window.dispatchEvent(new Event(SETTINGS_CHANGED_EVENT))
+}
+
+/**
+ * Time zone the daily rollover is computed in, or undefined for the runtime's
+ * local zone (the player's device in the browser)
+ */
+export function getRolloverTimeZone(): string | undefined {
+  return loadSettings().rolloverTimeZone ?? undefined
+}
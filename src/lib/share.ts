@@ -1,24 +1,175 @@
-import type { Guess } from '@/types/game'
+import type { FeedbackColor, Guess, PuzzleInfo } from '@/types/game'
+import { getPuzzleNumber } from './dailyPuzzle'
+import { getDifficultyLabel } from './difficulty'
+import { getPracticeSeed } from './practicePuzzle'
+import { formatDuration, parseDuration } from './timer'
+import { DEFAULT_GUESS_LIMIT, formatGuessLimit } from './engine'
 
-const EMOJI: Record<string, string> = {
+const EMOJI: Record<FeedbackColor, string> = {
   'correct': '🟩',
   'wrong-position': '🟨',
   'not-in-puzzle': '⬛',
 }
 
+export interface ShareOptions {
+  difficulty?: number // appended to the headline as its label, e.g. "· Hard"
+  hardMode?: boolean  // appends "· Hard mode"
+  timeMs?: number     // solve time of a timed game, appended as "· ⏱ 1:23"
+  maxGuesses?: number | null // the game's guess limit, shown after the slash; null = "∞"
+}
+
+// "3/6", "3/6*" for a retry, "X/6" for a loss
+export function formatShareScore(
+  guessCount: number,
+  status: 'won' | 'lost',
+  retried: boolean,
+  maxGuesses: number | null = DEFAULT_GUESS_LIMIT
+): string {
+  const limit = formatGuessLimit(maxGuesses)
+  return status === 'won' ? `${guessCount}/${limit}${retried ? '*' : ''}` : `X/${limit}`
+}
+
+// A daily puzzle number renders as "#N", a practice label such as "Practice abc123" as-is
+export function formatShareTitle(puzzleLabel: number | string): string {
+  return typeof puzzleLabel === 'number' ? `#${puzzleLabel}` : puzzleLabel
+}
+
+// Difficulty, hard mode and solve time, in headline order
+export function getShareFlags(options: ShareOptions): string[] {
+  const flags: string[] = []
+  if (options.difficulty !== undefined) flags.push(getDifficultyLabel(options.difficulty))
+  if (options.hardMode) flags.push('Hard mode')
+  if (options.timeMs !== undefined) flags.push(`⏱ ${formatDuration(options.timeMs)}`)
+  return flags
+}
+
 export function formatShareText(
   guesses: Guess[],
-  puzzleNumber: number,
+  puzzleLabel: number | string,
   guessCount: number,
   status: 'won' | 'lost',
-  retried: boolean
+  retried: boolean,
+  options: ShareOptions = {}
 ): string {
-  const result = status === 'won' ? `${guessCount}/6${retried ? '*' : ''}` : 'X/6'
+  const result = formatShareScore(guessCount, status, retried, options.maxGuesses)
 
   const rows = guesses.map(guess => {
     const [a, b, c, d, e, f, g, h] = guess.feedback.map(fb => EMOJI[fb])
     return `${a}${b} × ${e} = ${g}\n${c}${d}   ${f}   ${h}`
   })
 
-  return `Matrixle #${puzzleNumber} ${result}\n\n${rows.join('\n\n')}`
+  const suffix = getShareFlags(options).map(flag => ` · ${flag}`).join('')
+
+  return `Matrixle ${formatShareTitle(puzzleLabel)} ${result}${suffix}\n\n${rows.join('\n\n')}`
+}
+
+export function getShareLabel(puzzle: PuzzleInfo): number | string {
+  return puzzle.mode === 'practice' ? `Practice ${getPracticeSeed(puzzle)}` : getPuzzleNumber(puzzle.date)
+}
+
+/**
+ * A result read back from share text, e.g. pasted by a friend. `warnings`
+ * lists things that parsed but don't add up, such as a score that disagrees
+ * with the number of rows.
+ */
+export interface ParsedShare {
+  label: number | string // as passed to formatShareText
+  status: 'won' | 'lost'
+  guessCount: number // rows for a loss
+  retried: boolean
+  maxGuesses: number | null
+  flags: string[]
+  timeMs?: number
+  rows: FeedbackColor[][] // feedback per guess, in a..h order
+  warnings: string[]
+}
+
+const HEADLINE = /^Matrixle (?:#(\d+)|(Practice \S+)) (X|\d+)\/(\d+|∞)(\*?)((?: · [^·]+)*)$/
+const COLORS = new Map(Object.entries(EMOJI).map(([color, emoji]) => [emoji, color as FeedbackColor]))
+
+// Emoji tiles in a line, or null if anything else is in it besides the
+// allowed symbols; spacing is ignored as chat apps often collapse it
+function readTiles(line: string, symbols: string): (FeedbackColor | string)[] | null {
+  const tokens: (FeedbackColor | string)[] = []
+  for (const char of Array.from(line.replace(/\uFE0F/g, ''))) {
+    if (/\s/.test(char)) continue
+    const color = COLORS.get(char)
+    if (color) tokens.push(color)
+    else if (symbols.includes(char)) tokens.push(char)
+    else return null
+  }
+  return tokens
+}
+
+// One guess from its two lines: "ab × e = g" over "cd   f   h"
+function readRow(top: string, bottom: string): FeedbackColor[] | null {
+  const upper = readTiles(top, '×=')
+  const lower = readTiles(bottom, '')
+  if (!upper || !lower || upper.length !== 6 || lower.length !== 4) return null
+  if (upper[2] !== '×' || upper[4] !== '=') return null
+  const [a, b, , e, , g] = upper as FeedbackColor[]
+  const [c, d, f, h] = lower as FeedbackColor[]
+  if ([a, b, e, g].some(tile => !COLORS.has(EMOJI[tile]))) return null
+  return [a, b, c, d, e, f, g, h]
+}
+
+/**
+ * Read back text produced by formatShareText. Text before the headline is
+ * skipped so a whole pasted message works; blocks that don't fit the
+ * two-line, 8-tile layout are rejected.
+ */
+export function parseShareText(text: string): { ok: true; share: ParsedShare } | { ok: false; error: string } {
+  const lines = text.split(/\r?\n/).map(line => line.trim())
+  const start = lines.findIndex(line => HEADLINE.test(line))
+  if (start === -1) return { ok: false, error: 'No "Matrixle #N k/6" headline found' }
+
+  const [, number, practice, score, limit, star, suffix] = HEADLINE.exec(lines[start])!
+  const label = number !== undefined ? Number(number) : practice
+  const status = score === 'X' ? 'lost' : 'won'
+  const maxGuesses = limit === '∞' ? null : Number(limit)
+  const flags = suffix.split(' · ').slice(1).map(flag => flag.trim())
+  const timeFlag = flags.find(flag => flag.startsWith('⏱'))
+  const timeMs = timeFlag ? parseDuration(timeFlag.slice(1)) ?? undefined : undefined
+
+  // The grid runs until the first line that isn't part of it
+  const gridLines: string[] = []
+  for (const line of lines.slice(start + 1)) {
+    if (line === '') continue
+    if (!readTiles(line, '×=')) break
+    gridLines.push(line)
+  }
+  if (gridLines.length === 0) return { ok: false, error: 'No guesses found under the headline' }
+  if (gridLines.length % 2 !== 0) return { ok: false, error: 'Each guess needs two lines of tiles' }
+
+  const rows: FeedbackColor[][] = []
+  for (let i = 0; i < gridLines.length; i += 2) {
+    const row = readRow(gridLines[i], gridLines[i + 1])
+    if (!row) return { ok: false, error: `Guess ${i / 2 + 1} doesn't fit the 8-tile layout` }
+    rows.push(row)
+  }
+
+  const warnings: string[] = []
+  const guessCount = status === 'won' ? Number(score) : rows.length
+  if (status === 'won' && guessCount !== rows.length) {
+    warnings.push(`The score says ${guessCount} guesses but there are ${rows.length}`)
+  }
+  if (status === 'lost' && maxGuesses !== null && rows.length !== maxGuesses) {
+    warnings.push(`A loss should show all ${maxGuesses} guesses but there are ${rows.length}`)
+  }
+  if (maxGuesses !== null && rows.length > maxGuesses) {
+    warnings.push(`More guesses than the limit of ${maxGuesses}`)
+  }
+  const solvedAt = rows.findIndex(row => row.every(color => color === 'correct'))
+  if (status === 'won' && solvedAt !== rows.length - 1) {
+    warnings.push(solvedAt === -1 ? 'Marked as solved but no guess is all green' : 'Guesses continue after an all-green row')
+  }
+  if (status === 'lost' && solvedAt !== -1) {
+    warnings.push('Marked as a loss but a guess is all green')
+  }
+  if (timeFlag && timeMs === undefined) warnings.push(`Unreadable time "${timeFlag}"`)
+
+  return {
+    ok: true,
+    share: { label, status, guessCount, retried: star === '*', maxGuesses, flags, timeMs, rows, warnings },
+  }
 }
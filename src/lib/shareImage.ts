@@ -0,0 +1,135 @@
+import type { FeedbackColor, Guess } from '@/types/game'
+
+/**
+ * PNG version of the share text: each guess as a
+ * [a b; c d] × [e; f] = [g; h] grid of colored tiles, with no digits.
+ *
+ * Layout is computed separately from drawing so it can be tested without a
+ * canvas.
+ */
+export interface ImageRect {
+  x: number
+  y: number
+  width: number
+  height: number
+  color: string
+}
+
+export interface ImageText {
+  x: number // center
+  y: number // baseline
+  text: string
+  size: number
+  color: string
+  bold: boolean
+}
+
+export interface ShareImageLayout {
+  width: number
+  height: number
+  background: string
+  rects: ImageRect[]
+  texts: ImageText[]
+}
+
+// Tailwind's 500 shades, as on the board
+export const TILE_COLORS: Record<FeedbackColor, string> = {
+  'correct': '#22c55e',
+  'wrong-position': '#eab308',
+  'not-in-puzzle': '#6b7280',
+}
+
+const TILE = 32
+const GAP = 4
+const SYMBOL_WIDTH = 24 // room for "×" and "="
+const PADDING = 24
+const ROW_GAP = 16
+const MIN_WIDTH = 320
+const TITLE_SIZE = 22
+const SUBTITLE_SIZE = 14
+const TEXT_COLOR = '#111827'
+const MUTED_COLOR = '#6b7280'
+
+// Column offsets within a guess block: a/c, b/d, ×, e/f, =, g/h
+const GRID_WIDTH = TILE * 4 + GAP + SYMBOL_WIDTH * 2
+const COLUMNS = [0, TILE + GAP, TILE * 2 + GAP + SYMBOL_WIDTH, TILE * 3 + GAP + SYMBOL_WIDTH * 2]
+const BLOCK_HEIGHT = TILE * 2 + GAP
+
+// Feedback index of the tile in each column, top row then bottom row
+const TOP_ROW = [0, 1, 4, 6]    // a b e g
+const BOTTOM_ROW = [2, 3, 5, 7] // c d f h
+
+/**
+ * Tiles and text for a result image. `subtitle` (the mode flags) is optional.
+ */
+export function layoutShareImage(guesses: Guess[], title: string, subtitle: string | null): ShareImageLayout {
+  const width = Math.max(MIN_WIDTH, GRID_WIDTH + PADDING * 2)
+  const left = (width - GRID_WIDTH) / 2
+  const texts: ImageText[] = []
+  const rects: ImageRect[] = []
+
+  let y = PADDING + TITLE_SIZE
+  texts.push({ x: width / 2, y, text: title, size: TITLE_SIZE, color: TEXT_COLOR, bold: true })
+  if (subtitle) {
+    y += SUBTITLE_SIZE + 8
+    texts.push({ x: width / 2, y, text: subtitle, size: SUBTITLE_SIZE, color: MUTED_COLOR, bold: false })
+  }
+  y += PADDING
+
+  guesses.forEach((guess, i) => {
+    const top = y + i * (BLOCK_HEIGHT + ROW_GAP)
+    ;[TOP_ROW, BOTTOM_ROW].forEach((row, r) => {
+      row.forEach((feedbackIndex, column) => {
+        rects.push({
+          x: left + COLUMNS[column],
+          y: top + r * (TILE + GAP),
+          width: TILE,
+          height: TILE,
+          color: TILE_COLORS[guess.feedback[feedbackIndex]],
+        })
+      })
+    })
+    // Operators sit level with the top row, as in the share text
+    const symbolY = top + TILE * 0.75
+    texts.push({ x: left + TILE * 2 + GAP + SYMBOL_WIDTH / 2, y: symbolY, text: '×', size: 20, color: MUTED_COLOR, bold: false })
+    texts.push({ x: left + TILE * 3 + GAP + SYMBOL_WIDTH * 1.5, y: symbolY, text: '=', size: 20, color: MUTED_COLOR, bold: false })
+  })
+
+  const gridHeight = guesses.length * BLOCK_HEIGHT + Math.max(0, guesses.length - 1) * ROW_GAP
+  return {
+    width,
+    height: y + gridHeight + PADDING,
+    background: '#ffffff',
+    rects,
+    texts,
+  }
+}
+
+/**
+ * Draw a layout onto a new canvas and encode it as a PNG. Browser only.
+ */
+export function renderShareImage(layout: ShareImageLayout, scale = 2): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = layout.width * scale
+  canvas.height = layout.height * scale
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'))
+
+  ctx.scale(scale, scale)
+  ctx.fillStyle = layout.background
+  ctx.fillRect(0, 0, layout.width, layout.height)
+  layout.rects.forEach(rect => {
+    ctx.fillStyle = rect.color
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height)
+  })
+  ctx.textAlign = 'center'
+  layout.texts.forEach(text => {
+    ctx.fillStyle = text.color
+    ctx.font = `${text.bold ? 'bold ' : ''}${text.size}px sans-serif`
+    ctx.fillText(text.text, text.x, text.y)
+  })
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png')
+  })
+}
@@ -0,0 +1,78 @@
+/**
+ * One place for getting results off the page. Text goes to the native share
+ * sheet where there is one, then the clipboard; when both fail the caller
+ * shows the text for the player to copy by hand. Files go to the share sheet
+ * or are downloaded.
+ */
+export type ShareOutcome =
+  | 'shared'    // handed to the native share sheet
+  | 'copied'    // written to the clipboard
+  | 'cancelled' // the player closed the share sheet
+  | 'manual'    // nothing worked: show the text so it can be copied by hand
+
+export type FileShareOutcome = 'shared' | 'downloaded' | 'cancelled'
+
+type ShareNavigator = Pick<Navigator, 'share' | 'canShare' | 'clipboard'>
+
+function isAbort(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+export async function shareText(text: string, nav: ShareNavigator = navigator): Promise<ShareOutcome> {
+  if (typeof nav.share === 'function' && (typeof nav.canShare !== 'function' || nav.canShare({ text }))) {
+    try {
+      await nav.share({ text })
+      return 'shared'
+    } catch (error) {
+      if (isAbort(error)) return 'cancelled'
+      // share sheet unavailable (e.g. no user activation): try the clipboard
+    }
+  }
+  try {
+    await nav.clipboard.writeText(text)
+    return 'copied'
+  } catch {
+    return 'manual'
+  }
+}
+
+// Firefox and Safari can cancel a download whose URL is revoked straight after the click
+const REVOKE_DELAY_MS = 10_000
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+export async function shareFile(file: File, nav: ShareNavigator = navigator): Promise<FileShareOutcome> {
+  if (typeof nav.share === 'function' && typeof nav.canShare === 'function' && nav.canShare({ files: [file] })) {
+    try {
+      await nav.share({ files: [file] })
+      return 'shared'
+    } catch (error) {
+      if (isAbort(error)) return 'cancelled'
+    }
+  }
+  downloadBlob(file, file.name)
+  return 'downloaded'
+}
+
+// Button text after an attempt; null = show the button's normal label
+export function describeShareOutcome(outcome: ShareOutcome | FileShareOutcome | null): string | null {
+  switch (outcome) {
+    case 'shared':
+      return 'Shared!'
+    case 'copied':
+      return 'Copied!'
+    case 'downloaded':
+      return 'Saved!'
+    case 'manual':
+      return 'Copy failed'
+    default:
+      return null
+  }
+}
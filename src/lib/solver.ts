@@ -0,0 +1,62 @@
+import type { Guess, PuzzleInfo, PuzzleValues } from '@/types/game'
+import { generateFeedback } from './feedback'
+import { getPuzzlePool } from './puzzlePool'
+import { isCuratedDate } from './dailyPuzzle'
+
+let equations: PuzzleValues[] | null = null
+
+/**
+ * Every equation a player could enter: all eight cells are digits 0–9 and
+ * the multiplication holds
+ */
+export function getAllEquations(): PuzzleValues[] {
+  if (equations) return equations
+  equations = []
+  for (let a = 0; a <= 9; a++)
+    for (let b = 0; b <= 9; b++)
+      for (let c = 0; c <= 9; c++)
+        for (let d = 0; d <= 9; d++)
+          for (let e = 0; e <= 9; e++)
+            for (let f = 0; f <= 9; f++) {
+              const g = a * e + b * f
+              const h = c * e + d * f
+              if (g <= 9 && h <= 9) {
+                equations.push({ matrix: { a, b, c, d }, vector: { e, f }, result: { g, h } })
+              }
+            }
+  return equations
+}
+
+/**
+ * Every equation that can be the answer to `puzzle`: the puzzle pool, unless
+ * a curated puzzle is pinned to its date. Curated answers stay on the server
+ * and may use zeros, so on those dates any equation could be the one.
+ */
+export function getPossibleAnswers(puzzle?: PuzzleInfo): PuzzleValues[] {
+  return puzzle?.mode === 'daily' && isCuratedDate(puzzle.date) ? getAllEquations() : getPuzzlePool()
+}
+
+/**
+ * True when `candidate` as the answer would have produced exactly the
+ * feedback each guess received
+ */
+export function isConsistent(candidate: PuzzleValues, guesses: Guess[]): boolean {
+  return guesses.every(guess => {
+    const feedback = generateFeedback(guess, candidate)
+    return feedback.every((color, i) => color === guess.feedback[i])
+  })
+}
+
+/**
+ * Every candidate that is still a possible answer given the guesses so far
+ */
+export function getRemainingSolutions(
+  guesses: Guess[],
+  candidates: PuzzleValues[] = getPossibleAnswers()
+): PuzzleValues[] {
+  // Filter one guess at a time so later guesses only check the survivors
+  return guesses.reduce(
+    (remaining, guess) => remaining.filter(candidate => isConsistent(candidate, [guess])),
+    candidates
+  )
+}
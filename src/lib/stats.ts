@@ -0,0 +1,98 @@
+import { getDateForPuzzleNumber, getPuzzleNumber } from './dailyPuzzle'
+import { getSaveDate, readSavedGame } from './saveFormat'
+
+export interface DailyResult {
+  date: string
+  status: 'won' | 'lost'
+  guessCount: number
+  retried: boolean
+}
+
+export interface GameStats {
+  played: number
+  wins: number       // solved without a retry
+  retryWins: number  // solved on the retry; shown separately and never extend a streak
+  losses: number
+  winPercentage: number
+  currentStreak: number
+  maxStreak: number
+  distribution: number[] // clean wins by guess count; index 0 = solved in 1
+}
+
+/**
+ * Finished daily games from the per-day `matrixle-<date>` saves, oldest first.
+ * In-progress and unreadable saves are skipped.
+ */
+export function readDailyResults(storage: Storage = localStorage): DailyResult[] {
+  const results: DailyResult[] = []
+  for (let i = 0; i < storage.length; i++) {
+    const date = getSaveDate(storage.key(i) ?? '')
+    if (!date) continue
+    const saved = readSavedGame(date, storage)
+    if (saved?.status !== 'won' && saved?.status !== 'lost') continue
+    results.push({
+      date,
+      status: saved.status,
+      guessCount: saved.guesses.length,
+      retried: saved.retried,
+    })
+  }
+  return results.sort((x, y) => x.date.localeCompare(y.date))
+}
+
+function isStreakDay(result: DailyResult | undefined): boolean {
+  return result?.status === 'won' && !result.retried
+}
+
+export function calculateStats(results: DailyResult[], today: string): GameStats {
+  const byDate = new Map(results.map(result => [result.date, result]))
+  const distribution = new Array(6).fill(0)
+  let wins = 0
+  let retryWins = 0
+  let losses = 0
+
+  results.forEach(result => {
+    if (result.status === 'lost') losses++
+    else if (result.retried) retryWins++
+    else {
+      wins++
+      if (result.guessCount >= 1 && result.guessCount <= 6) distribution[result.guessCount - 1]++
+    }
+  })
+
+  // Longest run of consecutive puzzle days solved first time
+  let maxStreak = 0
+  let run = 0
+  let previous: number | null = null
+  results.forEach(result => {
+    const number = getPuzzleNumber(result.date)
+    if (!isStreakDay(result)) {
+      run = 0
+    } else {
+      run = previous !== null && number === previous + 1 && run > 0 ? run + 1 : 1
+    }
+    previous = number
+    maxStreak = Math.max(maxStreak, run)
+  })
+
+  // Today doesn't break the streak until it's finished
+  let day = getPuzzleNumber(today)
+  if (!byDate.has(today)) day--
+  let currentStreak = 0
+  while (day >= 1 && isStreakDay(byDate.get(getDateForPuzzleNumber(day)))) {
+    currentStreak++
+    day--
+  }
+
+  const played = results.length
+  return {
+    played,
+    wins,
+    retryWins,
+    losses,
+    winPercentage: played > 0 ? Math.round((wins / played) * 100) : 0,
+    currentStreak,
+    maxStreak,
+    distribution,
+  }
+}
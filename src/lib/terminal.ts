@@ -0,0 +1,107 @@
+import type { DigitStat, FeedbackColor, PuzzleValues } from '@/types/game'
+import { valuesToDigits } from './puzzlePool'
+import { parseSavedGame, type SavedGame } from './saveFormat'
+
+/**
+ * The parts of the terminal game (scripts/matrixle.ts) that touch neither the
+ * terminal nor the disk: reading a typed guess, drawing tiles, and the CLI's
+ * own save file.
+ */
+export const CLI_SAVE_FORMAT = 'matrixle-cli'
+export const CLI_SAVE_VERSION = 1
+
+export interface CliSaveFile {
+  format: typeof CLI_SAVE_FORMAT
+  version: typeof CLI_SAVE_VERSION
+  games: Record<string, unknown> // daily saves (see saveFormat) keyed by puzzle date
+  backups?: Record<string, unknown> // unreadable games moved aside, keyed the same way
+}
+
+const ANSI_RESET = '\x1b[0m'
+const ANSI_DIM = '\x1b[2m'
+
+const TILE_STYLES: Record<FeedbackColor, string> = {
+  'correct': '\x1b[1;30;42m',        // black on green
+  'wrong-position': '\x1b[1;30;43m', // black on yellow
+  'not-in-puzzle': '\x1b[1;97;100m', // white on grey
+}
+
+// Without colour the brackets carry the feedback: [3] right spot, (3) elsewhere
+const PLAIN_TILES: Record<FeedbackColor, [string, string]> = {
+  'correct': ['[', ']'],
+  'wrong-position': ['(', ')'],
+  'not-in-puzzle': [' ', ' '],
+}
+
+export const PLAIN_LEGEND = '[n] right spot · (n) elsewhere in the puzzle · n not in the puzzle'
+
+/**
+ * The eight digits of a typed guess in a b c d e f g h order. Anything
+ * between the digits is ignored, so "12 34 56 78" and "1234 5678" both work.
+ */
+export function parseGuessInput(text: string): { ok: true; values: PuzzleValues } | { ok: false; error: string } {
+  const digits = text.replace(/\D/g, '').split('').map(Number)
+  if (digits.length !== 8) {
+    return { ok: false, error: `Type eight digits, a b c d e f g h (got ${digits.length})` }
+  }
+  const [a, b, c, d, e, f, g, h] = digits
+  return { ok: true, values: { matrix: { a, b, c, d }, vector: { e, f }, result: { g, h } } }
+}
+
+function renderTile(digit: number, color: FeedbackColor | undefined, ansi: boolean): string {
+  if (!color) return ` ${digit} `
+  if (ansi) return `${TILE_STYLES[color]} ${digit} ${ANSI_RESET}`
+  const [open, close] = PLAIN_TILES[color]
+  return `${open}${digit}${close}`
+}
+
+/**
+ * A guess as two lines of tiles, laid out like the board and the share text:
+ *
+ *    a  b  ×  e  =  g
+ *    c  d     f     h
+ */
+export function renderGuess(values: PuzzleValues, feedback: FeedbackColor[] | null, ansi: boolean): string {
+  const [a, b, c, d, e, f, g, h] = valuesToDigits(values).map((digit, i) => renderTile(digit, feedback?.[i], ansi))
+  return `${a}${b} × ${e} = ${g}\n${c}${d}   ${f}   ${h}`
+}
+
+/**
+ * Digits 0–9 coloured by what the guesses have shown: green once every copy
+ * is placed, yellow while some are still to place, dimmed when ruled out
+ */
+export function renderDigits(digitStats: Record<string, DigitStat>, ansi: boolean): string {
+  return Array.from({ length: 10 }, (_, digit) => {
+    const stat = digitStats[digit]
+    if (!stat || (stat.confirmed === 0 && !stat.exact)) return ` ${digit} `
+    if (stat.confirmed === 0) return ansi ? `${ANSI_DIM} ${digit} ${ANSI_RESET}` : ' · '
+    return renderTile(digit, stat.exact && stat.placed >= stat.confirmed ? 'correct' : 'wrong-position', ansi)
+  }).join('')
+}
+
+export function isCliSaveFile(value: unknown): value is CliSaveFile {
+  const file = value as Partial<CliSaveFile> | null
+  return typeof file === 'object' && file !== null
+    && file.format === CLI_SAVE_FORMAT && file.version === CLI_SAVE_VERSION
+    && typeof file.games === 'object' && file.games !== null
+}
+
+export function createCliSaveFile(): CliSaveFile {
+  return { format: CLI_SAVE_FORMAT, version: CLI_SAVE_VERSION, games: {} }
+}
+
+/**
+ * The CLI's game for a date, migrated like a browser save. Like
+ * loadDailyGame, an unreadable game is moved into `backups` (changing the
+ * file) and reported through `error`, so starting over can't destroy it.
+ */
+export function loadCliGame(file: CliSaveFile, date: string): { save: SavedGame | null; error: string | null } {
+  const game = file.games[date]
+  if (game === undefined) return { save: null, error: null }
+  const parsed = parseSavedGame(JSON.stringify(game))
+  if (parsed.ok) return { save: parsed.save, error: null }
+
+  file.backups = { ...file.backups, [date]: game }
+  delete file.games[date]
+  return { save: null, error: parsed.error }
+}
@@ -0,0 +1,32 @@
+import type { GameTimer } from '@/types/game'
+
+/**
+ * Time on the clock at `now`, including the current running stretch
+ */
+export function getElapsedMs(timer: GameTimer, now: number): number {
+  return timer.elapsedMs + (timer.runningSince === null ? 0 : Math.max(0, now - timer.runningSince))
+}
+
+export function pauseTimer(timer: GameTimer, now: number): GameTimer {
+  return { elapsedMs: getElapsedMs(timer, now), runningSince: null }
+}
+
+// "0:42", "12:05" or "1:02:09"
+export function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 1000))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const seconds = String(total % 60).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`
+}
+
+// Inverse of formatDuration; null when the text isn't a duration
+export function parseDuration(text: string): number | null {
+  const match = /^(?:(\d+):([0-5]\d)|(\d+)):([0-5]\d)$/.exec(text.trim())
+  if (!match) return null
+  const [, hours, hourMinutes, minutes, seconds] = match
+  const totalMinutes = hours !== undefined ? Number(hours) * 60 + Number(hourMinutes) : Number(minutes)
+  return (totalMinutes * 60 + Number(seconds)) * 1000
+}
@@ -1,4 +1,7 @@
-import { Matrix2x2, Vector2x1, Result2x1, ValidationResult } from '@/types/game';
+import { Matrix2x2, Vector2x1, Result2x1, ValidationResult, Guess } from '@/types/game';
+import { calculateDigitStats } from './feedback';
+
+const POSITION_LABELS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
 
 /**
  * Validates matrix multiplication: [a b] × [e] = [g]
@@ -89,12 +92,64 @@ export function validateMatrixInputs(
 }
 
 /**
- * Complete validation: inputs are valid AND math is correct
+ * Hard mode: a guess must respect every hint revealed so far.
+ * - green cells keep their digit
+ * - yellow (and green) digits are reused at least as often as confirmed
+ * - a digit whose exact count is known can't appear more often than that
+ */
+export function validateHardMode(
+  matrix: Matrix2x2,
+  vector: Vector2x1,
+  result: Result2x1,
+  previousGuesses: Guess[]
+): ValidationResult {
+  const errors: string[] = [];
+  const digits = [matrix.a, matrix.b, matrix.c, matrix.d, vector.e, vector.f, result.g, result.h];
+
+  // Green cells
+  previousGuesses.forEach((guess, guessIndex) => {
+    const previous = [
+      guess.matrix.a, guess.matrix.b, guess.matrix.c, guess.matrix.d,
+      guess.vector.e, guess.vector.f, guess.result.g, guess.result.h
+    ];
+    guess.feedback.forEach((color, i) => {
+      const message = `Position ${POSITION_LABELS[i]} must be ${previous[i]} (green in guess ${guessIndex + 1})`;
+      if (color === 'correct' && digits[i] !== previous[i] && !errors.includes(message)) {
+        errors.push(message);
+      }
+    });
+  });
+
+  // Digit counts
+  const stats = calculateDigitStats(previousGuesses);
+  Object.entries(stats).forEach(([digit, { confirmed, exact }]) => {
+    const used = digits.filter(d => d.toString() === digit).length;
+    if (used < confirmed) {
+      errors.push(confirmed === 1
+        ? `Guess must contain ${digit}`
+        : `Guess must contain ${digit} at least ${confirmed} times`);
+    } else if (exact && used > confirmed) {
+      errors.push(confirmed === 0
+        ? `${digit} is not in the puzzle`
+        : `The puzzle has only ${confirmed} × ${digit}`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined
+  };
+}
+
+/**
+ * Complete validation: inputs are valid AND math is correct.
+ * Pass the earlier guesses to also enforce hard mode.
  */
 export function validateCompleteGuess(
   matrix: Partial<Matrix2x2>,
   vector: Partial<Vector2x1>,
-  result: Partial<Result2x1>
+  result: Partial<Result2x1>,
+  hardModeGuesses?: Guess[]
 ): ValidationResult {
   const inputValidation = validateMatrixInputs(matrix, vector, result);
   
@@ -115,6 +170,15 @@ export function validateCompleteGuess(
       errors: ['The math doesn\'t work out! Try again.']
     };
   }
+
+  if (hardModeGuesses) {
+    return validateHardMode(
+      matrix as Matrix2x2,
+      vector as Vector2x1,
+      result as Result2x1,
+      hardModeGuesses
+    );
+  }
   
   return { isValid: true };
 }
\ No newline at end of file
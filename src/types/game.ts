@@ -36,10 +36,45 @@ export interface Guess {
   timestamp: Date
 }
 
-export interface Puzzle {
+export type PuzzleMode = 'daily' | 'practice'
+
+// The digits of a puzzle, without the id/date/mode bookkeeping
+export interface PuzzleValues {
   matrix: Matrix2x2
   vector: Vector2x1
   result: Result2x1
-  id: string
-  date: string
-}
\ No newline at end of file
+}
+
+// A puzzle without its answer: all the browser holds for a daily puzzle,
+// whose guesses are checked by the server
+export interface PuzzleInfo {
+  id: string   // 'daily-<date>' or 'practice-<seed>'
+  date: string // publish date for daily puzzles; the day it was played for practice
+  mode: PuzzleMode
+  difficulty: number // 1 (easy) to 5, see rateDifficulty
+}
+
+export interface Puzzle extends PuzzleInfo {
+  matrix: Matrix2x2
+  vector: Vector2x1
+  result: Result2x1
+}
+export type GameStatus = 'playing' | 'won' | 'lost'
+
+// Clock for timed games; only counts while the page is visible
+export interface GameTimer {
+  elapsedMs: number           // time banked so far
+  runningSince: number | null // epoch ms the clock last (re)started; null while paused or stopped
+}
+
+export interface GameState {
+  puzzle: Puzzle | PuzzleInfo // PuzzleInfo when guesses are checked remotely
+  guesses: Guess[]
+  currentGuess: number
+  status: GameStatus
+  digitStats: Record<string, DigitStat>
+  retried: boolean
+  hardMode: boolean // every guess must respect earlier hints; fixed after the first guess
+  timer: GameTimer | null // null unless the game is timed
+  maxGuesses: number | null // guess limit; null = unlimited. Fixed after the first guess
+}